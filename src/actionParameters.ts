@@ -0,0 +1,156 @@
+import { App, Modal, Setting } from 'obsidian';
+
+// ── Action Parameters ──────────────────────────────────────────────────────────
+//
+// Values an action asks for each time it runs, such as a target language or a
+// word count. Prompts use them as {{param.<name>}}; the values last used for
+// an action are offered again the next time.
+
+export type ActionParameterType = 'text' | 'choice' | 'number';
+
+export interface ActionParameter {
+  name: string; // Used in prompts as {{param.<name>}}
+  label?: string; // Shown in the form; defaults to the name
+  type: ActionParameterType;
+  options?: string[]; // Values of a 'choice' parameter
+  default?: string;
+}
+
+export const ACTION_PARAMETER_TYPES: { value: ActionParameterType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'choice', label: 'Choice' },
+  { value: 'number', label: 'Number' },
+];
+
+/**
+ * The values to start the form with: the last used ones where they are still
+ * valid, else each parameter's default (or first option for a choice).
+ */
+export function getInitialParameterValues(
+  parameters: ActionParameter[],
+  lastUsed: Record<string, string> = {},
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const parameter of parameters) {
+    const previous = lastUsed[parameter.name];
+    const options = parameter.options ?? [];
+    if (parameter.type === 'choice') {
+      values[parameter.name] = [previous, parameter.default].find((v) => v !== undefined && options.includes(v)) ?? options[0] ?? '';
+    } else {
+      values[parameter.name] = previous ?? parameter.default ?? '';
+    }
+  }
+  return values;
+}
+
+/**
+ * Problems with the declared parameters, e.g. duplicate names; empty if
+ * they are valid.
+ */
+export function validateParameters(parameters: ActionParameter[]): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  for (const parameter of parameters) {
+    if (!parameter.name) {
+      errors.push('A parameter has no name');
+    } else if (!/^[\w-]+$/.test(parameter.name)) {
+      errors.push(`Parameter "${parameter.name}" can only use letters, digits, _ and -`);
+    } else if (seen.has(parameter.name)) {
+      errors.push(`Parameter "${parameter.name}" is declared twice`);
+    }
+    if (parameter.type === 'choice' && !parameter.options?.length) {
+      errors.push(`Parameter "${parameter.name}" has no options`);
+    }
+    seen.add(parameter.name);
+  }
+  return errors;
+}
+
+// ── Action Parameters Modal ────────────────────────────────────────────────────
+
+/**
+ * Asks for the values of an action's parameters before it runs.
+ */
+export class ActionParametersModal extends Modal {
+  private values: Record<string, string>;
+  private errorEl: HTMLElement | null = null;
+
+  constructor(
+    app: App,
+    private title: string,
+    private parameters: ActionParameter[],
+    initialValues: Record<string, string>,
+    private onSubmit: (values: Record<string, string>) => void,
+  ) {
+    super(app);
+    this.values = { ...initialValues };
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    this.titleEl.setText(this.title);
+    contentEl.addClass('copilot-action-parameters');
+
+    const inputEls: HTMLElement[] = [];
+    for (const parameter of this.parameters) {
+      const setting = new Setting(contentEl).setName(parameter.label || parameter.name);
+
+      if (parameter.type === 'choice') {
+        setting.addDropdown((dropdown) => {
+          for (const option of parameter.options ?? []) dropdown.addOption(option, option);
+          dropdown.setValue(this.values[parameter.name]).onChange((value) => {
+            this.values[parameter.name] = value;
+          });
+          inputEls.push(dropdown.selectEl);
+        });
+      } else {
+        setting.addText((text) => {
+          if (parameter.type === 'number') text.inputEl.type = 'number';
+          text.setValue(this.values[parameter.name]).onChange((value) => {
+            this.values[parameter.name] = value;
+          });
+          text.inputEl.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              this.submit();
+            }
+          });
+          inputEls.push(text.inputEl);
+        });
+      }
+    }
+
+    this.errorEl = contentEl.createDiv({ cls: 'copilot-action-parameters-error' });
+    this.errorEl.hide();
+
+    new Setting(contentEl).addButton((btn) =>
+      btn
+        .setButtonText('Run')
+        .setCta()
+        .onClick(() => this.submit())
+    );
+
+    requestAnimationFrame(() => inputEls[0]?.focus());
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private submit(): void {
+    const invalid = this.parameters.filter((p) => {
+      const value = this.values[p.name].trim();
+      return p.type === 'number' && value !== '' && !Number.isFinite(Number(value));
+    });
+    if (invalid.length > 0) {
+      this.errorEl?.setText(`Enter a number for ${invalid.map((p) => p.label || p.name).join(', ')}`);
+      this.errorEl?.show();
+      return;
+    }
+
+    const values: Record<string, string> = {};
+    for (const parameter of this.parameters) values[parameter.name] = this.values[parameter.name].trim();
+    this.onSubmit(values);
+    this.close();
+  }
+}
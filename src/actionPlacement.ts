@@ -0,0 +1,66 @@
+// ── Action Placement ───────────────────────────────────────────────────────────
+//
+// Where an action's output goes. Replace is reviewed as a diff; the others
+// insert the output somewhere in (or next to) the note without review.
+
+export type ActionPlacement =
+  | 'replace' // Replace the selection
+  | 'append' // After the selection
+  | 'prepend' // Before the selection
+  | 'callout' // After the selection, as a callout
+  | 'footnote' // Footnote marker after the selection, text at the end of the note
+  | 'new-note' // New note, linked after the selection
+  | 'frontmatter' // A frontmatter property of the note
+  | 'top' // Top of the note, below any frontmatter
+  | 'clipboard'; // Copied, the note is left unchanged
+
+export const ACTION_PLACEMENTS: { value: ActionPlacement; label: string; description: string }[] = [
+  { value: 'replace', label: 'Replace', description: 'Replace the selection, reviewed as a diff' },
+  { value: 'append', label: 'Append', description: 'Insert after the selection' },
+  { value: 'prepend', label: 'Prepend', description: 'Insert before the selection' },
+  { value: 'callout', label: 'Callout', description: 'Insert after the selection as a callout' },
+  { value: 'footnote', label: 'Footnote', description: 'Add as a footnote to the selection' },
+  { value: 'new-note', label: 'New note', description: 'Create a new note and link it after the selection' },
+  { value: 'frontmatter', label: 'Property', description: 'Set a frontmatter property of the note' },
+  { value: 'top', label: 'Top of note', description: 'Insert at the top of the note, below the frontmatter' },
+  { value: 'clipboard', label: 'Clipboard', description: 'Copy to the clipboard without changing the note' },
+];
+
+export function getPlacementLabel(placement: ActionPlacement): string {
+  return ACTION_PLACEMENTS.find((p) => p.value === placement)?.label ?? placement;
+}
+
+/**
+ * Formats text as a callout with the given title, e.g. the action's name.
+ */
+export function formatCallout(text: string, title: string, type = 'note'): string {
+  const body = text.split('\n').map((line) => (line ? `> ${line}` : '>'));
+  return [`> [!${type}] ${title}`, ...body].join('\n');
+}
+
+/**
+ * Returns the lowest numeric footnote id not yet used in the note.
+ */
+export function getNextFootnoteId(content: string): number {
+  const used = new Set(Array.from(content.matchAll(/\[\^(\d+)\]/g), (m) => parseInt(m[1], 10)));
+  let id = 1;
+  while (used.has(id)) id++;
+  return id;
+}
+
+/**
+ * Formats a footnote definition; continuation lines are indented so the
+ * footnote can span several paragraphs.
+ */
+export function formatFootnote(id: number, text: string): string {
+  const [first, ...rest] = text.split('\n');
+  return [`[^${id}]: ${first}`, ...rest.map((line) => (line ? `    ${line}` : ''))].join('\n');
+}
+
+/**
+ * Frontmatter property name derived from an action name, e.g.
+ * "Find action items" → "find-action-items".
+ */
+export function getDefaultPropertyName(actionName: string): string {
+  return actionName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'copilot';
+}
@@ -0,0 +1,160 @@
+import { ItemView, MarkdownView, Notice, TFile, WorkspaceLeaf, setIcon } from 'obsidian';
+import type { EditorView } from '@codemirror/view';
+import type CopilotPlugin from './main';
+import { AiEdit } from './aiEditLog';
+
+export const VIEW_TYPE_COPILOT_AI_EDITS = 'copilot-ai-edit-history';
+
+// Characters of before/after text shown per edit before it is cut off
+const PREVIEW_CHARS = 400;
+
+function formatTimestamp(timestamp: number): string {
+  const date = new Date(timestamp);
+  const now = new Date();
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+}
+
+function truncate(text: string): string {
+  return text.length > PREVIEW_CHARS ? text.slice(0, PREVIEW_CHARS) + '…' : text;
+}
+
+// ── AI Edit History View ───────────────────────────────────────────────────────
+
+/**
+ * Lists the AI edits made to the active note, newest first, with a button to
+ * revert each one.
+ */
+export class AiEditHistoryView extends ItemView {
+  plugin: CopilotPlugin;
+  private file: TFile | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(leaf: WorkspaceLeaf, plugin: CopilotPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_COPILOT_AI_EDITS;
+  }
+
+  getDisplayText(): string {
+    return 'AI edit history';
+  }
+
+  getIcon(): string {
+    return 'history';
+  }
+
+  async onOpen(): Promise<void> {
+    this.contentEl.addClass('copilot-ai-edits-view');
+    this.file = this.app.workspace.getActiveFile();
+
+    // Follow the active note; the view keeps showing the last one while it has focus itself
+    this.registerEvent(
+      this.app.workspace.on('file-open', (file) => {
+        if (file && file !== this.file) {
+          this.file = file;
+          void this.render();
+        }
+      })
+    );
+    this.unsubscribe = this.plugin.aiEditLog.onChange(() => void this.render());
+    await this.render();
+  }
+
+  async onClose(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  private async render(): Promise<void> {
+    const file = this.file;
+    const edits = file ? await this.plugin.aiEditLog.getEdits(file.path) : [];
+    // A newer render may have started while the log was loading
+    if (file !== this.file) return;
+
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const headerEl = contentEl.createDiv({ cls: 'copilot-ai-edits-header' });
+    headerEl.createDiv({ cls: 'copilot-ai-edits-title', text: file ? file.basename : 'No note open' });
+    if (file && edits.length > 0) {
+      const clearBtn = headerEl.createEl('button', {
+        cls: 'clickable-icon',
+        attr: { 'aria-label': 'Clear history for this note' },
+      });
+      setIcon(clearBtn, 'trash');
+      clearBtn.addEventListener('click', () => void this.plugin.aiEditLog.clear(file.path));
+    }
+
+    if (edits.length === 0) {
+      contentEl.createDiv({ cls: 'copilot-ai-edits-empty', text: 'No AI edits in this note yet' });
+      return;
+    }
+
+    for (const edit of [...edits].reverse()) {
+      this.renderEdit(contentEl, edit);
+    }
+  }
+
+  private renderEdit(parentEl: HTMLElement, edit: AiEdit): void {
+    const itemEl = parentEl.createDiv({ cls: 'copilot-ai-edit' });
+    if (edit.revertedAt) itemEl.addClass('is-reverted');
+
+    const headerEl = itemEl.createDiv({ cls: 'copilot-ai-edit-header' });
+    const infoEl = headerEl.createDiv({ cls: 'copilot-ai-edit-info' });
+    infoEl.createDiv({ cls: 'copilot-ai-edit-action', text: edit.action });
+    const meta = [formatTimestamp(edit.timestamp), edit.model];
+    if (edit.revertedAt) meta.push(`reverted ${formatTimestamp(edit.revertedAt)}`);
+    infoEl.createDiv({ cls: 'copilot-ai-edit-meta', text: meta.join(' · ') });
+
+    if (!edit.revertedAt) {
+      const revertBtn = headerEl.createEl('button', { cls: 'copilot-ai-edit-revert', text: 'Revert' });
+      revertBtn.addEventListener('click', () => void this.revertEdit(edit));
+    }
+
+    if (edit.prompt) {
+      itemEl.createDiv({ cls: 'copilot-ai-edit-prompt', text: edit.prompt });
+    }
+
+    const detailsEl = itemEl.createEl('details', { cls: 'copilot-ai-edit-details' });
+    detailsEl.createEl('summary', {
+      text: edit.changes.length === 1 ? 'Show change' : `Show ${edit.changes.length} changes`,
+    });
+    for (const change of edit.changes) {
+      if (change.before) {
+        detailsEl.createDiv({ cls: 'copilot-ai-edit-before', text: truncate(change.before) });
+      }
+      detailsEl.createDiv({ cls: 'copilot-ai-edit-after', text: truncate(change.after) });
+    }
+  }
+
+  private async revertEdit(edit: AiEdit): Promise<void> {
+    const result = await this.plugin.aiEditLog.revert(edit, this.getEditorView(edit.path));
+    if (result === 'not-found') {
+      new Notice('Could not find this edit in the note; it may have been changed or removed');
+    } else if (result === 'reverted-with-manual-changes') {
+      new Notice(`Reverted ${edit.action}, including later manual changes inside it`);
+    } else {
+      new Notice(`Reverted ${edit.action}`);
+    }
+  }
+
+  /**
+   * The editor the note is open in, if any, so the revert can use the edit's
+   * tracked position.
+   */
+  private getEditorView(path: string): EditorView | null {
+    for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+      if (leaf.view instanceof MarkdownView && leaf.view.file?.path === path) {
+        // @ts-expect-error - editor.cm is not typed in Obsidian's API
+        return leaf.view.editor.cm as EditorView;
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,294 @@
+import type { ChangeDesc, Text } from "@codemirror/state";
+import { Annotation, StateEffect, StateField, Transaction } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { App, TFile, debounce } from "obsidian";
+
+// ── AI Edit Log ────────────────────────────────────────────────────────────────
+//
+// Every change an action applies to a note goes through `applyAiEdit`, which
+// dispatches it as a single transaction marked with `aiEditAnnotation` (so it
+// is one undo step) and tracks the inserted ranges through later edits. The
+// log of edits per note is persisted, so an edit can be reverted later: by its
+// tracked ranges while the note stays open, or by finding its text otherwise.
+
+export interface AiEditChange {
+  from: number; // Range of `after` in the note right after the edit
+  to: number;
+  before: string;
+  after: string;
+}
+
+export interface AiEdit {
+  id: string;
+  path: string;
+  action: string; // Action name, e.g. "Summarize"
+  model: string;
+  prompt: string;
+  timestamp: number;
+  changes: AiEditChange[];
+  revertedAt?: number;
+}
+
+export interface AiEditSpec {
+  from: number;
+  to: number;
+  insert: string;
+}
+
+interface PersistedLog {
+  version: number;
+  notes: Record<string, AiEdit[]>;
+}
+
+const LOG_VERSION = 1;
+
+// Edits kept per note, oldest dropped first
+const MAX_EDITS_PER_NOTE = 50;
+
+/** Marks a transaction as an AI edit; the value is the edit's id. */
+export const aiEditAnnotation = Annotation.define<string>();
+
+// ── Tracked Ranges (CM6 StateField) ────────────────────────────────────────────
+
+type TrackedRanges = Map<string, { from: number; to: number }[]>;
+
+const trackAiEditEffect = StateEffect.define<{ id: string; ranges: { from: number; to: number }[] }>();
+const untrackAiEditEffect = StateEffect.define<string>();
+
+const mapRange = (range: { from: number; to: number }, changes: ChangeDesc) => {
+  const isEmpty = range.from === range.to;
+  const from = changes.mapPos(range.from, 1);
+  const to = changes.mapPos(range.to, isEmpty ? 1 : -1);
+  return from <= to ? { from, to } : { from: to, to: from };
+};
+
+export const aiEditTracker = StateField.define<TrackedRanges>({
+  create() {
+    return new Map();
+  },
+  update(value, tr) {
+    let next = value;
+    if (tr.docChanged && value.size > 0) {
+      next = new Map();
+      value.forEach((ranges, id) => next.set(id, ranges.map((r) => mapRange(r, tr.changes))));
+    }
+    for (const effect of tr.effects) {
+      if (effect.is(trackAiEditEffect)) {
+        if (next === value) next = new Map(value);
+        next.set(effect.value.id, effect.value.ranges);
+      } else if (effect.is(untrackAiEditEffect)) {
+        if (next === value) next = new Map(value);
+        next.delete(effect.value);
+      }
+    }
+    return next;
+  },
+});
+
+/**
+ * Joins changes into one covering the text from the first to the last, e.g.
+ * the accepted hunks of a diff review, so the edit is logged as one range.
+ */
+export function combineChanges(doc: Text, specs: AiEditSpec[]): AiEditSpec {
+  const sorted = [...specs].sort((a, b) => a.from - b.from);
+  const from = sorted[0].from;
+  let insert = "";
+  let position = from;
+  for (const spec of sorted) {
+    insert += doc.sliceString(position, spec.from) + spec.insert;
+    position = spec.to;
+  }
+  return { from, to: position, insert };
+}
+
+let editCounter = 0;
+
+/**
+ * Applies changes as a single annotated transaction and starts tracking the
+ * inserted text. Returns the edit to record in the log.
+ */
+export function applyAiEdit(
+  view: EditorView,
+  specs: AiEditSpec[],
+  info: Omit<AiEdit, "id" | "timestamp" | "changes">,
+): AiEdit {
+  const id = `ai-edit-${Date.now().toString(36)}-${++editCounter}`;
+  const sorted = [...specs].sort((a, b) => a.from - b.from);
+  const changeSet = view.state.changes(sorted);
+
+  const changes: AiEditChange[] = sorted.map((spec) => ({
+    from: changeSet.mapPos(spec.from, -1),
+    to: changeSet.mapPos(spec.to, 1),
+    before: view.state.doc.sliceString(spec.from, spec.to),
+    after: spec.insert,
+  }));
+
+  view.dispatch({
+    changes: changeSet,
+    effects: trackAiEditEffect.of({ id, ranges: changes.map(({ from, to }) => ({ from, to })) }),
+    annotations: [aiEditAnnotation.of(id), Transaction.userEvent.of("input.copilot")],
+  });
+
+  return { ...info, id, timestamp: Date.now(), changes };
+}
+
+/**
+ * Finds an edit's changes in note content by their text, taking the
+ * occurrence nearest to where each was made. Returns null if any is missing.
+ */
+function locateChanges(content: string, edit: AiEdit): { from: number; to: number }[] | null {
+  const ranges: { from: number; to: number }[] = [];
+  for (const change of edit.changes) {
+    if (!change.after) return null;
+    let best = -1;
+    let index = content.indexOf(change.after);
+    while (index !== -1) {
+      if (best === -1 || Math.abs(index - change.from) < Math.abs(best - change.from)) best = index;
+      index = content.indexOf(change.after, index + 1);
+    }
+    if (best === -1) return null;
+    ranges.push({ from: best, to: best + change.after.length });
+  }
+  return ranges;
+}
+
+export type RevertResult = "reverted" | "reverted-with-manual-changes" | "not-found";
+
+// ── Persisted Log ──────────────────────────────────────────────────────────────
+
+export class AiEditLog {
+  private notes: Record<string, AiEdit[]> = {};
+  private loaded: Promise<void> | null = null;
+  private listeners = new Set<() => void>();
+  private requestSave = debounce(() => void this.save(), 1000, true);
+
+  constructor(private app: App, private logPath: string) {}
+
+  /** Calls `listener` whenever the log changes; returns an unsubscribe function. */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  async getEdits(path: string): Promise<AiEdit[]> {
+    await this.ensureLoaded();
+    return this.notes[path] ?? [];
+  }
+
+  async add(edit: AiEdit): Promise<void> {
+    await this.ensureLoaded();
+    const edits = [...(this.notes[edit.path] ?? []), edit];
+    this.notes[edit.path] = edits.slice(-MAX_EDITS_PER_NOTE);
+    this.changed();
+  }
+
+  async clear(path: string): Promise<void> {
+    await this.ensureLoaded();
+    delete this.notes[path];
+    this.changed();
+  }
+
+  async renameFile(oldPath: string, newPath: string): Promise<void> {
+    await this.ensureLoaded();
+    const edits = this.notes[oldPath];
+    if (!edits) return;
+    delete this.notes[oldPath];
+    this.notes[newPath] = edits.map((edit) => ({ ...edit, path: newPath }));
+    this.changed();
+  }
+
+  async removeFile(path: string): Promise<void> {
+    await this.ensureLoaded();
+    if (!this.notes[path]) return;
+    delete this.notes[path];
+    this.changed();
+  }
+
+  /**
+   * Restores the text an edit replaced. Uses the edit's tracked ranges when
+   * the note is open in `view`, so later edits around it are kept; otherwise
+   * looks the inserted text up in the note.
+   */
+  async revert(edit: AiEdit, view: EditorView | null): Promise<RevertResult> {
+    let result: RevertResult = "reverted";
+
+    if (view) {
+      const tracked = view.state.field(aiEditTracker, false)?.get(edit.id);
+      const ranges = tracked ?? locateChanges(view.state.doc.toString(), edit);
+      if (!ranges) return "not-found";
+
+      const manuallyChanged = ranges.some(
+        (range, i) => view.state.doc.sliceString(range.from, range.to) !== edit.changes[i].after,
+      );
+      if (manuallyChanged) result = "reverted-with-manual-changes";
+
+      view.dispatch({
+        changes: ranges.map((range, i) => ({ from: range.from, to: range.to, insert: edit.changes[i].before })),
+        effects: untrackAiEditEffect.of(edit.id),
+        annotations: [aiEditAnnotation.of(edit.id), Transaction.userEvent.of("input.copilot.revert")],
+      });
+    } else {
+      const file = this.app.vault.getAbstractFileByPath(edit.path);
+      if (!(file instanceof TFile)) return "not-found";
+
+      let found = false;
+      await this.app.vault.process(file, (content) => {
+        const ranges = locateChanges(content, edit);
+        if (!ranges) return content;
+        found = true;
+        // From the end so earlier offsets stay valid
+        for (let i = ranges.length - 1; i >= 0; i--) {
+          content = content.slice(0, ranges[i].from) + edit.changes[i].before + content.slice(ranges[i].to);
+        }
+        return content;
+      });
+      if (!found) return "not-found";
+    }
+
+    await this.ensureLoaded();
+    this.notes[edit.path] = (this.notes[edit.path] ?? []).map((e) =>
+      e.id === edit.id ? { ...e, revertedAt: Date.now() } : e,
+    );
+    this.changed();
+    return result;
+  }
+
+  /**
+   * Writes a pending save right away, e.g. when the plugin unloads, so an
+   * edit made just before isn't missing from the history.
+   */
+  flush(): void {
+    this.requestSave.run();
+  }
+
+  private changed(): void {
+    this.requestSave();
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loaded) this.loaded = this.load();
+    return this.loaded;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      if (!(await this.app.vault.adapter.exists(this.logPath))) return;
+      const data = JSON.parse(await this.app.vault.adapter.read(this.logPath)) as PersistedLog;
+      if (data.version === LOG_VERSION) {
+        this.notes = data.notes;
+      }
+    } catch (error) {
+      console.error("Failed to load AI edit log:", error);
+    }
+  }
+
+  private async save(): Promise<void> {
+    try {
+      const data: PersistedLog = { version: LOG_VERSION, notes: this.notes };
+      await this.app.vault.adapter.write(this.logPath, JSON.stringify(data));
+    } catch (error) {
+      console.error("Failed to save AI edit log:", error);
+    }
+  }
+}
@@ -0,0 +1,508 @@
+import {
+  App,
+  Modal,
+  Setting,
+  TFile,
+  getAllTags,
+  getFrontMatterInfo,
+  normalizePath,
+  prepareSimpleSearch,
+} from 'obsidian';
+import type { CopilotAction } from './main';
+
+// ── Batch Targets ──────────────────────────────────────────────────────────────
+
+export type BatchScopeKind = 'folder' | 'tag' | 'search';
+
+export interface BatchScope {
+  kind: BatchScopeKind;
+  value: string; // Folder path, tag (with or without #), or search query
+}
+
+export type BatchOutput = 'review' | 'summary';
+
+function isInFolder(file: TFile, folder: string): boolean {
+  const normalized = normalizePath(folder);
+  return normalized === '/' || file.path.startsWith(normalized + '/');
+}
+
+function hasTag(app: App, file: TFile, tag: string): boolean {
+  const wanted = ('#' + tag.replace(/^#/, '')).toLowerCase();
+  const cache = app.metadataCache.getFileCache(file);
+  const tags = cache ? getAllTags(cache) ?? [] : [];
+  // Nested tags count, e.g. #project/launch for #project
+  return tags.some((t) => t.toLowerCase() === wanted || t.toLowerCase().startsWith(wanted + '/'));
+}
+
+/**
+ * Finds the notes a batch runs on. Search matches all words of the query
+ * against each note's path and content.
+ */
+export async function collectBatchFiles(app: App, scope: BatchScope): Promise<TFile[]> {
+  const value = scope.value.trim();
+  if (!value && scope.kind !== 'folder') return [];
+  const files = app.vault.getMarkdownFiles();
+
+  let matches: TFile[];
+  if (scope.kind === 'folder') {
+    matches = files.filter((f) => isInFolder(f, value || '/'));
+  } else if (scope.kind === 'tag') {
+    matches = files.filter((f) => hasTag(app, f, value));
+  } else {
+    const search = prepareSimpleSearch(value);
+    matches = [];
+    for (const file of files) {
+      if (search(file.path) || search(await app.vault.cachedRead(file))) matches.push(file);
+    }
+  }
+  return matches.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * The part of a note an action runs on: everything below the frontmatter.
+ */
+export function getNoteBody(content: string): { from: number; text: string } {
+  const from = getFrontMatterInfo(content).contentStart;
+  return { from, text: content.slice(from) };
+}
+
+// ── Batch Runner ───────────────────────────────────────────────────────────────
+
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'skipped' | 'failed' | 'cancelled';
+
+export interface BatchItem {
+  file: TFile;
+  status: BatchItemStatus;
+  input?: string; // Note body sent to the action
+  prompt?: string; // Rendered prompt, recorded with the AI edit
+  output?: string;
+  error?: string;
+}
+
+/**
+ * Runs an action over notes with a limited number of requests in flight.
+ * Pausing stops new notes from starting; cancelling also aborts the requests
+ * in flight through `abortController`.
+ */
+export class BatchRunner {
+  readonly items: BatchItem[];
+  readonly abortController = new AbortController();
+  private paused = false;
+  private resumeWaiters: (() => void)[] = [];
+  private listeners = new Set<() => void>();
+  private finished = false;
+
+  constructor(
+    files: TFile[],
+    private processItem: (item: BatchItem, signal: AbortSignal) => Promise<void>,
+    private concurrency: number,
+  ) {
+    this.items = files.map((file) => ({ file, status: 'pending' }));
+    this.abortController.signal.addEventListener('abort', () => {
+      for (const item of this.items) {
+        if (item.status === 'pending') item.status = 'cancelled';
+      }
+      this.resumeWaiters.splice(0).forEach((resolve) => resolve());
+      this.changed();
+    });
+  }
+
+  /** Calls `listener` whenever progress changes; returns an unsubscribe function. */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  async run(): Promise<void> {
+    const workers = Array.from({ length: Math.max(1, Math.min(this.concurrency, this.items.length)) }, () =>
+      this.runWorker(),
+    );
+    await Promise.all(workers);
+    this.finished = true;
+    this.changed();
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  isFinished(): boolean {
+    return this.finished;
+  }
+
+  isCancelled(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  pause(): void {
+    this.paused = true;
+    this.changed();
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.resumeWaiters.splice(0).forEach((resolve) => resolve());
+    this.changed();
+  }
+
+  cancel(): void {
+    this.abortController.abort();
+  }
+
+  countByStatus(): Record<BatchItemStatus, number> {
+    const counts: Record<BatchItemStatus, number> = {
+      pending: 0,
+      running: 0,
+      done: 0,
+      skipped: 0,
+      failed: 0,
+      cancelled: 0,
+    };
+    for (const item of this.items) counts[item.status]++;
+    return counts;
+  }
+
+  private async runWorker(): Promise<void> {
+    const signal = this.abortController.signal;
+    while (!signal.aborted) {
+      if (this.paused) {
+        await new Promise<void>((resolve) => this.resumeWaiters.push(resolve));
+        continue;
+      }
+
+      const item = this.items.find((i) => i.status === 'pending');
+      if (!item) return;
+
+      item.status = 'running';
+      this.changed();
+      try {
+        await this.processItem(item, signal);
+        if (item.status === 'running') item.status = 'done';
+      } catch (error: unknown) {
+        item.status = signal.aborted ? 'cancelled' : 'failed';
+        item.error = error instanceof Error ? error.message : 'Unknown error';
+      }
+      this.changed();
+    }
+  }
+
+  private changed(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// ── Summary Note ───────────────────────────────────────────────────────────────
+
+async function ensureFolder(app: App, folder: string): Promise<void> {
+  if (!folder || app.vault.getAbstractFileByPath(folder)) return;
+  await app.vault.createFolder(folder);
+}
+
+/**
+ * Writes a batch's results to a new note: one section per note with a link
+ * back to it, followed by the notes that failed.
+ */
+export async function writeBatchSummary(
+  app: App,
+  action: CopilotAction,
+  items: BatchItem[],
+  folderSetting: string,
+): Promise<TFile> {
+  const folder = folderSetting ? normalizePath(folderSetting) : '';
+  await ensureFolder(app, folder);
+
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const date = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())} ${pad(now.getHours())}${pad(now.getMinutes())}`;
+  const baseName = `${action.name} - ${date}`.replace(/[\\/:*?"<>|#^[\]]/g, '');
+  const prefix = folder ? folder + '/' : '';
+  let path = normalizePath(`${prefix}${baseName}.md`);
+  for (let i = 1; app.vault.getAbstractFileByPath(path); i++) {
+    path = normalizePath(`${prefix}${baseName} ${i}.md`);
+  }
+
+  const done = items.filter((i) => i.status === 'done' && i.output);
+  const failed = items.filter((i) => i.status === 'failed');
+  const lines = [`# ${action.icon} ${action.name}`, '', `Ran on ${items.length} notes on ${now.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}.`];
+
+  for (const item of done) {
+    lines.push('', `## ${app.fileManager.generateMarkdownLink(item.file, path)}`, '', item.output ?? '');
+  }
+  if (failed.length > 0) {
+    lines.push('', '## Failed', '');
+    for (const item of failed) {
+      lines.push(`- ${app.fileManager.generateMarkdownLink(item.file, path)}: ${item.error ?? 'Unknown error'}`);
+    }
+  }
+
+  return app.vault.create(path, lines.join('\n') + '\n');
+}
+
+// ── Setup Modal ────────────────────────────────────────────────────────────────
+
+export interface BatchSetup {
+  action: CopilotAction;
+  scope: BatchScope;
+  output: BatchOutput;
+  files: TFile[];
+}
+
+/**
+ * Picks the action, the notes to run it on, and where the results go.
+ */
+export class BatchSetupModal extends Modal {
+  private actionIndex = 0;
+  private batchScope: BatchScope;
+  private output: BatchOutput;
+  private files: TFile[] = [];
+  private matchSetting: Setting | null = null;
+  private runButton: HTMLButtonElement | null = null;
+  private updateId = 0;
+
+  constructor(
+    app: App,
+    private actions: CopilotAction[],
+    initialScope: BatchScope,
+    private onRun: (setup: BatchSetup) => void,
+  ) {
+    super(app);
+    this.batchScope = initialScope;
+    this.output = this.getDefaultOutput();
+  }
+
+  onOpen(): void {
+    this.titleEl.setText('Run action on multiple notes');
+    this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private getDefaultOutput(): BatchOutput {
+    return this.actions[this.actionIndex]?.placement === 'replace' ? 'review' : 'summary';
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    if (this.actions.length === 0) {
+      new Setting(contentEl)
+        .setName('No actions configured')
+        .setDesc('Add an action under Settings → Actions to run it on many notes.');
+      return;
+    }
+
+    new Setting(contentEl).setName('Action').addDropdown((dropdown) => {
+      this.actions.forEach((action, index) => dropdown.addOption(String(index), `${action.icon} ${action.name}`));
+      dropdown.setValue(String(this.actionIndex)).onChange((value) => {
+        this.actionIndex = parseInt(value, 10);
+        this.output = this.getDefaultOutput();
+        this.render();
+      });
+    });
+
+    new Setting(contentEl)
+      .setName('Notes')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('folder', 'In folder')
+          .addOption('tag', 'With tag')
+          .addOption('search', 'Matching search')
+          .setValue(this.batchScope.kind)
+          .onChange((value) => {
+            this.batchScope = { kind: value as BatchScopeKind, value: '' };
+            this.render();
+          })
+      )
+      .addText((text) => {
+        const placeholders: Record<BatchScopeKind, string> = {
+          folder: 'Folder path, or / for the whole vault',
+          tag: '#tag',
+          search: 'Words to search for',
+        };
+        text
+          .setPlaceholder(placeholders[this.batchScope.kind])
+          .setValue(this.batchScope.value)
+          .onChange((value) => {
+            this.batchScope = { ...this.batchScope, value };
+            void this.updateMatches();
+          });
+      });
+
+    new Setting(contentEl)
+      .setName('Results')
+      .setDesc(this.output === 'review'
+        ? 'Each note\'s body is replaced by the result, reviewed one note at a time as a diff.'
+        : 'Results are collected in a new summary note with links to each note.')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('review', 'Review changes in each note')
+          .addOption('summary', 'Write to a summary note')
+          .setValue(this.output)
+          .onChange((value) => {
+            this.output = value as BatchOutput;
+            this.render();
+          })
+      );
+
+    this.matchSetting = new Setting(contentEl).addButton((btn) => {
+      btn
+        .setButtonText('Run')
+        .setCta()
+        .onClick(() => {
+          const action = this.actions[this.actionIndex];
+          if (!action || this.files.length === 0) return;
+          this.close();
+          this.onRun({
+            action,
+            scope: this.batchScope,
+            output: this.output,
+            files: this.files,
+          });
+        });
+      this.runButton = btn.buttonEl;
+    });
+    void this.updateMatches();
+  }
+
+  private async updateMatches(): Promise<void> {
+    const updateId = ++this.updateId;
+    const files = await collectBatchFiles(this.app, this.batchScope);
+    // A newer query may have been typed while searching
+    if (updateId !== this.updateId) return;
+
+    this.files = files;
+    this.matchSetting?.setName(files.length === 1 ? '1 note' : `${files.length} notes`);
+    this.matchSetting?.setDesc(files.slice(0, 3).map((f) => f.basename).join(', ') + (files.length > 3 ? ', …' : ''));
+    if (this.runButton) this.runButton.disabled = files.length === 0;
+  }
+}
+
+// ── Progress Modal ─────────────────────────────────────────────────────────────
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  pending: 'Waiting',
+  running: 'Running...',
+  done: 'Done',
+  skipped: 'Skipped',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+export interface BatchProgressCallbacks {
+  onReview?: () => void; // Shown once finished, for batches reviewed as diffs
+  onOpenSummary?: () => void; // Shown once the summary note is written
+}
+
+/**
+ * Shows a batch's progress with pause and cancel. Closing the modal leaves
+ * the batch running.
+ */
+export class BatchProgressModal extends Modal {
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    app: App,
+    private title: string,
+    private runner: BatchRunner,
+    private callbacks: BatchProgressCallbacks,
+  ) {
+    super(app);
+  }
+
+  setCallbacks(callbacks: BatchProgressCallbacks): void {
+    this.callbacks = callbacks;
+    this.render();
+  }
+
+  onOpen(): void {
+    this.titleEl.setText(this.title);
+    this.unsubscribe = this.runner.onChange(() => this.render());
+    this.render();
+  }
+
+  onClose(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.contentEl.empty();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('copilot-batch-progress');
+
+    const counts = this.runner.countByStatus();
+    const total = this.runner.items.length;
+    const completed = counts.done + counts.skipped + counts.failed + counts.cancelled;
+
+    const progressEl = contentEl.createEl('progress', { cls: 'copilot-batch-progress-bar' });
+    progressEl.max = total;
+    progressEl.value = completed;
+
+    const summary = [`${completed} of ${total} notes`];
+    if (counts.failed > 0) summary.push(`${counts.failed} failed`);
+    if (counts.skipped > 0) summary.push(`${counts.skipped} unchanged`);
+    if (this.runner.isPaused() && !this.runner.isFinished()) summary.push('paused');
+    if (this.runner.isCancelled()) summary.push('cancelled');
+    contentEl.createDiv({ cls: 'copilot-batch-summary', text: summary.join(' · ') });
+
+    const listEl = contentEl.createDiv({ cls: 'copilot-batch-list' });
+    for (const item of this.runner.items) {
+      const rowEl = listEl.createDiv({ cls: `copilot-batch-item is-${item.status}` });
+      const nameEl = rowEl.createEl('a', { cls: 'copilot-batch-item-name', text: item.file.path });
+      nameEl.addEventListener('click', (e) => {
+        e.preventDefault();
+        void this.app.workspace.getLeaf('tab').openFile(item.file);
+      });
+      rowEl.createSpan({
+        cls: 'copilot-batch-item-status',
+        text: item.error ? `${STATUS_LABELS[item.status]}: ${item.error}` : STATUS_LABELS[item.status],
+      });
+    }
+
+    const buttons = new Setting(contentEl);
+    if (!this.runner.isFinished()) {
+      buttons.addButton((btn) =>
+        btn
+          .setButtonText(this.runner.isPaused() ? 'Resume' : 'Pause')
+          .setDisabled(this.runner.isCancelled())
+          .onClick(() => (this.runner.isPaused() ? this.runner.resume() : this.runner.pause()))
+      );
+      buttons.addButton((btn) =>
+        btn
+          .setButtonText('Cancel')
+          .setWarning()
+          .setDisabled(this.runner.isCancelled())
+          .onClick(() => this.runner.cancel())
+      );
+    } else {
+      const { onReview, onOpenSummary } = this.callbacks;
+      if (onReview && counts.done > 0) {
+        buttons.addButton((btn) =>
+          btn
+            .setButtonText(`Review ${counts.done} changes`)
+            .setCta()
+            .onClick(() => {
+              this.close();
+              onReview();
+            })
+        );
+      }
+      if (onOpenSummary) {
+        buttons.addButton((btn) =>
+          btn
+            .setButtonText('Open summary note')
+            .setCta()
+            .onClick(() => {
+              this.close();
+              onOpenSummary();
+            })
+        );
+      }
+      buttons.addButton((btn) => btn.setButtonText('Close').onClick(() => this.close()));
+    }
+  }
+}
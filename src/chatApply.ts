@@ -0,0 +1,162 @@
+// ── Apply Targets ──────────────────────────────────────────────────────────────
+//
+// Works out which part of a note a chat reply should replace: the selection the
+// question referenced, the section whose heading the reply starts with, or the
+// code block the reply rewrites. The change itself goes through the inline
+// diff review.
+
+export type ApplyTargetKind = 'selection' | 'section' | 'code-block';
+
+export interface ApplyTarget {
+  kind: ApplyTargetKind;
+  from: number; // Offsets in the note content
+  to: number;
+  text: string; // Replacement text for [from, to)
+  label: string; // Short description for notices, e.g. 'section "Goals"'
+}
+
+interface CodeBlock {
+  lang: string;
+  from: number; // Offset of the first code line, after the opening fence
+  to: number; // Offset of the closing fence line
+  code: string;
+}
+
+interface Heading {
+  level: number;
+  text: string;
+  from: number;
+}
+
+/**
+ * Finds headings and fenced code blocks, ignoring heading-like lines inside
+ * code blocks.
+ */
+function scanMarkdown(content: string): { headings: Heading[]; codeBlocks: CodeBlock[] } {
+  const headings: Heading[] = [];
+  const codeBlocks: CodeBlock[] = [];
+  let open: { fence: string; lang: string; from: number } | null = null;
+  let offset = 0;
+
+  for (const line of content.split('\n')) {
+    const lineEnd = offset + line.length + 1;
+    const fence = line.match(/^\s*(`{3,}|~{3,})\s*([\w+-]*)/);
+
+    if (open) {
+      if (fence && fence[1].startsWith(open.fence) && !fence[2]) {
+        codeBlocks.push({ lang: open.lang, from: open.from, to: offset, code: content.slice(open.from, offset) });
+        open = null;
+      }
+    } else if (fence) {
+      open = { fence: fence[1], lang: fence[2].toLowerCase(), from: Math.min(lineEnd, content.length) };
+    } else {
+      const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+      if (heading) headings.push({ level: heading[1].length, text: heading[2], from: offset });
+    }
+
+    offset = lineEnd;
+  }
+  return { headings, codeBlocks };
+}
+
+/**
+ * The text a reply proposes: the contents of its code block when the reply
+ * is a single fenced block with at most a line or two around it, otherwise
+ * the whole reply.
+ */
+export function getProposedText(reply: string): string {
+  const { codeBlocks } = scanMarkdown(reply);
+  if (codeBlocks.length === 1) {
+    const block = codeBlocks[0];
+    const outside = (reply.slice(0, block.from) + reply.slice(block.to)).split('\n').filter((l) => l.trim());
+    if (outside.length <= 4) return block.code.replace(/\n$/, '');
+  }
+  return reply.trim();
+}
+
+function normalizeHeading(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function findSectionTarget(content: string, reply: string): ApplyTarget | null {
+  const firstLine = reply.trim().split('\n')[0];
+  const replyHeading = firstLine.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+  if (!replyHeading) return null;
+
+  const { headings } = scanMarkdown(content);
+  const index = headings.findIndex((h) => normalizeHeading(h.text) === normalizeHeading(replyHeading[2]));
+  if (index === -1) return null;
+
+  const heading = headings[index];
+  const next = headings.slice(index + 1).find((h) => h.level <= heading.level);
+  const to = next ? next.from : content.length;
+
+  // Keep the blank lines that separated the section from the next one
+  const trailing = content.slice(heading.from, to).match(/\s*$/)?.[0] ?? '';
+  return {
+    kind: 'section',
+    from: heading.from,
+    to,
+    text: reply.trim() + trailing,
+    label: `section "${heading.text}"`,
+  };
+}
+
+function countSharedLines(a: string, b: string): number {
+  const lines = new Set(a.split('\n').map((l) => l.trim()).filter(Boolean));
+  return b.split('\n').filter((l) => lines.has(l.trim())).length;
+}
+
+function findCodeBlockTarget(content: string, reply: string): ApplyTarget | null {
+  const replyBlocks = scanMarkdown(reply).codeBlocks;
+  if (replyBlocks.length !== 1) return null;
+  const replyBlock = replyBlocks[0];
+
+  const candidates = scanMarkdown(content).codeBlocks.filter((b) => b.lang === replyBlock.lang);
+  if (candidates.length === 0) return null;
+
+  // With several blocks in the same language, pick the one the reply most resembles
+  let best = candidates.length === 1 ? candidates[0] : null;
+  let bestScore = 0;
+  if (!best) {
+    for (const candidate of candidates) {
+      const score = countSharedLines(candidate.code, replyBlock.code);
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+  }
+  if (!best) return null;
+
+  return {
+    kind: 'code-block',
+    from: best.from,
+    to: best.to,
+    text: replyBlock.code,
+    label: best.lang ? `${best.lang} code block` : 'code block',
+  };
+}
+
+/**
+ * Finds the range a reply should replace, trying in order: the selection the
+ * question referenced, a section with the same heading as the reply's first
+ * line, and a code block matching the reply's code block. Returns null if
+ * none applies.
+ */
+export function findApplyTarget(content: string, reply: string, selectionText?: string): ApplyTarget | null {
+  if (selectionText) {
+    const from = content.indexOf(selectionText);
+    if (from !== -1) {
+      return {
+        kind: 'selection',
+        from,
+        to: from + selectionText.length,
+        text: getProposedText(reply),
+        label: 'referenced selection',
+      };
+    }
+  }
+
+  return findSectionTarget(content, reply) ?? findCodeBlockTarget(content, reply);
+}
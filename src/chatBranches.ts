@@ -0,0 +1,87 @@
+import { ChatMessage, ChatThread } from './chatTypes';
+
+// ── Message Tree ───────────────────────────────────────────────────────────────
+//
+// A thread stores every message it has ever had in `messages`. Each message
+// points at the message it replies to via `parentId`, so regenerating a reply
+// or editing a question adds a sibling instead of overwriting history. The
+// branch shown in the chat is the path from the root to `activeLeafId`.
+
+/**
+ * Upgrades threads saved before branching existed: their messages form a
+ * single linear branch. Also drops the full prompts (note content included)
+ * that were once stored on user messages; they are rebuilt when needed.
+ */
+export function ensureMessageTree(thread: ChatThread): void {
+  let previousId: string | null = null;
+  for (const message of thread.messages as (ChatMessage & { prompt?: string })[]) {
+    delete message.prompt;
+    if (message.parentId === undefined) {
+      message.parentId = previousId;
+    }
+    previousId = message.id;
+  }
+  if (thread.activeLeafId === undefined) {
+    thread.activeLeafId = previousId;
+  }
+}
+
+/**
+ * Returns the messages on the active branch, oldest first.
+ */
+export function getActiveBranch(thread: ChatThread): ChatMessage[] {
+  const byId = new Map(thread.messages.map((m) => [m.id, m]));
+  const branch: ChatMessage[] = [];
+  let current = thread.activeLeafId ? byId.get(thread.activeLeafId) : undefined;
+  while (current) {
+    branch.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return branch;
+}
+
+/**
+ * Returns the active branch up to (but not including) the given message.
+ */
+export function getBranchBefore(thread: ChatThread, messageId: string): ChatMessage[] {
+  const branch = getActiveBranch(thread);
+  const index = branch.findIndex((m) => m.id === messageId);
+  return index === -1 ? branch : branch.slice(0, index);
+}
+
+/**
+ * Returns all alternatives for a message (itself included), oldest first.
+ */
+export function getSiblings(thread: ChatThread, message: ChatMessage): ChatMessage[] {
+  return thread.messages
+    .filter((m) => m.parentId === message.parentId && m.role === message.role)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Follows the most recent reply from a message down to the end of its branch.
+ */
+export function getLatestLeaf(thread: ChatThread, messageId: string): string {
+  let leafId = messageId;
+  for (;;) {
+    const children = thread.messages
+      .filter((m) => m.parentId === leafId)
+      .sort((a, b) => b.timestamp - a.timestamp);
+    if (children.length === 0) return leafId;
+    leafId = children[0].id;
+  }
+}
+
+/**
+ * Adds a message as a reply to `parentId` (default: the active leaf) and makes
+ * it the new active leaf.
+ */
+export function appendMessage(
+  thread: ChatThread,
+  message: ChatMessage,
+  parentId: string | null = thread.activeLeafId ?? null,
+): void {
+  message.parentId = parentId;
+  thread.messages.push(message);
+  thread.activeLeafId = message.id;
+}
@@ -0,0 +1,122 @@
+import { App } from 'obsidian';
+import { ChatCitation } from './chatTypes';
+
+// ── Citation Protocol ──────────────────────────────────────────────────────────
+//
+// Every context block sent with a question is numbered ("Source [1]: ...") and
+// the model is asked to cite the sources it uses with the same number. The
+// numbers are stored on the message so the rendered reply can link each
+// marker back to the note, heading or block it came from.
+
+export const CITATION_INSTRUCTION =
+  'When your answer uses information from a numbered source, cite it inline with its number in square brackets, e.g. [1] or [1][3]. Only cite sources listed above.';
+
+export function getCitationLabel(citation: ChatCitation): string {
+  const basename = citation.path.replace(/^.*\//, '').replace(/\.md$/, '');
+  if (citation.blockId) return `${basename} > ^${citation.blockId}`;
+  if (citation.heading) return `${basename} > ${citation.heading}`;
+  return basename;
+}
+
+/**
+ * Link text that opens the cited note scrolled to its heading or block.
+ */
+export function getCitationLinktext(citation: ChatCitation): string {
+  if (citation.blockId) return `${citation.path}#^${citation.blockId}`;
+  if (citation.heading) return `${citation.path}#${citation.heading}`;
+  return citation.path;
+}
+
+export function getCitationHeader(citation: ChatCitation, description: string): string {
+  return `Source [${citation.id}] — ${description}:`;
+}
+
+export function openCitation(app: App, citation: ChatCitation): void {
+  void app.workspace.openLinkText(getCitationLinktext(citation), '', false);
+}
+
+// ── Rendering ──────────────────────────────────────────────────────────────────
+
+const CITATION_MARKER = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/**
+ * Replaces [n] and [n, m] markers in rendered Markdown with links to the cited
+ * sources. Markers inside code and markers without a matching citation are
+ * left as they are.
+ */
+export function linkCitationMarkers(app: App, el: HTMLElement, citations: ChatCitation[]): void {
+  if (citations.length === 0) return;
+  const byId = new Map(citations.map((c) => [c.id, c]));
+
+  const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    if (node.parentElement?.closest('code, pre, a')) continue;
+    if (node.data.includes('[')) textNodes.push(node);
+  }
+
+  for (const node of textNodes) {
+    const text = node.data;
+    const fragment = createFragment();
+    let lastIndex = 0;
+    let linked = false;
+
+    for (const match of text.matchAll(CITATION_MARKER)) {
+      const ids = match[1].split(',').map((id) => parseInt(id.trim(), 10));
+      if (!ids.every((id) => byId.has(id))) continue;
+
+      fragment.append(text.slice(lastIndex, match.index));
+      for (const id of ids) {
+        const citation = byId.get(id) as ChatCitation;
+        const linkEl = fragment.createEl('a', {
+          cls: 'copilot-citation-link',
+          text: `[${id}]`,
+          attr: { 'aria-label': getCitationLabel(citation) },
+        });
+        linkEl.addEventListener('click', (e) => {
+          e.preventDefault();
+          openCitation(app, citation);
+        });
+      }
+      lastIndex = (match.index ?? 0) + match[0].length;
+      linked = true;
+    }
+
+    if (!linked) continue;
+    fragment.append(text.slice(lastIndex));
+    node.replaceWith(fragment);
+  }
+}
+
+/**
+ * Lists a reply's sources below its content. Only sources the reply cites are
+ * shown, unless it cites none, in which case all of them are.
+ */
+export function renderCitationList(app: App, contentEl: HTMLElement, citations: ChatCitation[]): void {
+  contentEl.parentElement?.querySelector('.copilot-message-sources')?.remove();
+  if (citations.length === 0) return;
+
+  const citedIds = new Set(
+    Array.from(contentEl.querySelectorAll('.copilot-citation-link')).map((el) =>
+      parseInt(el.textContent?.slice(1, -1) ?? '', 10),
+    ),
+  );
+  const shown = citedIds.size > 0 ? citations.filter((c) => citedIds.has(c.id)) : citations;
+
+  const sourcesEl = createDiv({ cls: 'copilot-message-sources' });
+  contentEl.insertAdjacentElement('afterend', sourcesEl);
+  sourcesEl.createSpan({ cls: 'copilot-message-sources-label', text: 'Sources' });
+
+  for (const citation of shown) {
+    const linkEl = sourcesEl.createEl('a', {
+      cls: 'copilot-message-source',
+      text: `[${citation.id}] ${getCitationLabel(citation)}`,
+      attr: { 'aria-label': getCitationLinktext(citation) },
+    });
+    linkEl.addEventListener('click', (e) => {
+      e.preventDefault();
+      openCitation(app, citation);
+    });
+  }
+}
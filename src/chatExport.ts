@@ -0,0 +1,126 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { ChatMessage, ChatThread } from './chatTypes';
+import { getThreadTitle } from './chatHistory';
+import { getActiveBranch } from './chatBranches';
+import { getCitationLabel, getCitationLinktext } from './chatCitations';
+
+// ── Export Options ─────────────────────────────────────────────────────────────
+
+export type ChatExportFormat = 'callouts' | 'headings' | 'transcript';
+
+export interface ChatExportOptions {
+  format: ChatExportFormat;
+  folder: string; // Vault folder for exported notes; empty means the vault root
+  linkContextFile: boolean; // Link back to the note the conversation was about
+}
+
+const ROLE_LABELS: Record<ChatMessage['role'], string> = {
+  user: 'You',
+  assistant: 'Copilot',
+  system: 'System',
+};
+
+const ROLE_CALLOUTS: Record<ChatMessage['role'], string> = {
+  user: 'question',
+  assistant: 'note',
+  system: 'info',
+};
+
+// ── Formatting ─────────────────────────────────────────────────────────────────
+
+function formatFrontmatter(thread: ChatThread, options: ChatExportOptions): string {
+  const lines = [
+    '---',
+    `title: ${JSON.stringify(getThreadTitle(thread))}`,
+    `model: ${JSON.stringify(thread.model)}`,
+    `created: ${new Date(thread.created).toISOString()}`,
+    `updated: ${new Date(thread.updated).toISOString()}`,
+  ];
+  if (thread.contextFile) {
+    const value = options.linkContextFile ? `[[${thread.contextFile}]]` : thread.contextFile;
+    lines.push(`context_file: ${JSON.stringify(value)}`);
+  }
+  lines.push('---');
+  return lines.join('\n');
+}
+
+/**
+ * Lists an assistant message's sources as wikilinks, e.g. "[1] [[Note#Heading|Note > Heading]]".
+ */
+function formatSources(message: ChatMessage): string {
+  if (message.role !== 'assistant' || !message.citations?.length) return '';
+  const links = message.citations.map((citation) => {
+    const linktext = getCitationLinktext(citation).replace(/\.md(?=#|$)/, '');
+    return `[${citation.id}] [[${linktext}|${getCitationLabel(citation)}]]`;
+  });
+  return `\n\nSources: ${links.join(', ')}`;
+}
+
+function formatMessage(message: ChatMessage, format: ChatExportFormat): string {
+  const label = ROLE_LABELS[message.role];
+  const time = new Date(message.timestamp).toLocaleString();
+  const content = message.content.trim() + formatSources(message);
+
+  switch (format) {
+    case 'callouts': {
+      const body = content.split('\n').map((line) => (line ? `> ${line}` : '>')).join('\n');
+      return `> [!${ROLE_CALLOUTS[message.role]}] ${label} · ${time}\n${body}`;
+    }
+    case 'headings':
+      return `## ${label}\n*${time}*\n\n${content}`;
+    case 'transcript':
+    default:
+      return `**${label}:** ${content}`;
+  }
+}
+
+/**
+ * Converts a chat thread into a Markdown note with frontmatter and one
+ * role-labelled section per message on the active branch.
+ */
+export function formatThreadAsMarkdown(thread: ChatThread, options: ChatExportOptions): string {
+  const sections = [formatFrontmatter(thread, options), `# ${getThreadTitle(thread)}`];
+
+  if (options.linkContextFile && thread.contextFile) {
+    sections.push(`Conversation about [[${thread.contextFile}]]`);
+  }
+
+  const messages = getActiveBranch(thread).filter((m) => !m.streaming && m.content.trim());
+  for (const message of messages) {
+    sections.push(formatMessage(message, options.format));
+  }
+
+  return sections.join('\n\n') + '\n';
+}
+
+// ── Writing to the Vault ───────────────────────────────────────────────────────
+
+function sanitizeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|#^[\]]/g, '').replace(/\s+/g, ' ').trim() || 'Conversation';
+}
+
+async function ensureFolder(app: App, folder: string): Promise<void> {
+  if (!folder || app.vault.getAbstractFileByPath(folder)) return;
+  await app.vault.createFolder(folder);
+}
+
+/**
+ * Writes the thread to a new note, picking a unique file name, and returns it.
+ */
+export async function exportThreadToNote(
+  app: App,
+  thread: ChatThread,
+  options: ChatExportOptions,
+): Promise<TFile> {
+  const folder = options.folder ? normalizePath(options.folder) : '';
+  await ensureFolder(app, folder);
+
+  const baseName = sanitizeFileName(getThreadTitle(thread));
+  const prefix = folder ? folder + '/' : '';
+  let path = normalizePath(`${prefix}${baseName}.md`);
+  for (let i = 1; app.vault.getAbstractFileByPath(path); i++) {
+    path = normalizePath(`${prefix}${baseName} ${i}.md`);
+  }
+
+  return app.vault.create(path, formatThreadAsMarkdown(thread, options));
+}
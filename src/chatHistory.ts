@@ -0,0 +1,207 @@
+import { App, Modal, Setting, setIcon } from 'obsidian';
+import { ChatThread } from './chatTypes';
+
+// ── Thread Titles ──────────────────────────────────────────────────────────────
+
+const MAX_TITLE_LENGTH = 48;
+
+/**
+ * Returns the display title for a thread: the user-assigned title if set,
+ * otherwise a title derived from the first user message.
+ */
+export function getThreadTitle(thread: ChatThread): string {
+  if (thread.title) return thread.title;
+
+  const firstUserMessage = thread.messages.find((m) => m.role === 'user');
+  if (!firstUserMessage) return 'New conversation';
+
+  const firstLine = firstUserMessage.content.trim().split(/\r?\n/)[0];
+  return firstLine.length > MAX_TITLE_LENGTH
+    ? firstLine.slice(0, MAX_TITLE_LENGTH).trimEnd() + '...'
+    : firstLine;
+}
+
+/**
+ * Sorts threads for display: pinned threads first, then most recently updated.
+ */
+export function sortThreadsForHistory(threads: ChatThread[]): ChatThread[] {
+  return [...threads].sort((a, b) => {
+    if (!!a.pinned !== !!b.pinned) return a.pinned ? -1 : 1;
+    return b.updated - a.updated;
+  });
+}
+
+function formatUpdated(timestamp: number): string {
+  const date = new Date(timestamp);
+  const now = new Date();
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleDateString();
+}
+
+// ── Rename Modal ───────────────────────────────────────────────────────────────
+
+class RenameThreadModal extends Modal {
+  private value: string;
+  private onSubmit: (title: string) => void;
+
+  constructor(app: App, currentTitle: string, onSubmit: (title: string) => void) {
+    super(app);
+    this.value = currentTitle;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen(): void {
+    this.titleEl.setText('Rename conversation');
+
+    new Setting(this.contentEl).setName('Title').addText((text) => {
+      text.setValue(this.value).onChange((value) => {
+        this.value = value;
+      });
+      text.inputEl.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          this.submit();
+        }
+      });
+      requestAnimationFrame(() => text.inputEl.select());
+    });
+
+    new Setting(this.contentEl).addButton((btn) =>
+      btn
+        .setButtonText('Save')
+        .setCta()
+        .onClick(() => this.submit())
+    );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private submit(): void {
+    this.onSubmit(this.value.trim());
+    this.close();
+  }
+}
+
+// ── History Panel ──────────────────────────────────────────────────────────────
+
+export interface ChatHistoryCallbacks {
+  getThreads: () => ChatThread[];
+  getCurrentThreadId: () => string | null;
+  onSelect: (thread: ChatThread) => void;
+  onRename: (thread: ChatThread, title: string) => void;
+  onTogglePin: (thread: ChatThread) => void;
+  onDelete: (thread: ChatThread) => void;
+}
+
+/**
+ * Collapsible list of saved conversations shown below the chat toolbar.
+ */
+export class ChatHistoryPanel {
+  private app: App;
+  private containerEl: HTMLElement;
+  private callbacks: ChatHistoryCallbacks;
+  private visible = false;
+
+  constructor(app: App, parentEl: HTMLElement, callbacks: ChatHistoryCallbacks) {
+    this.app = app;
+    this.callbacks = callbacks;
+    this.containerEl = parentEl.createDiv({ cls: 'copilot-chat-history' });
+    this.containerEl.style.display = 'none';
+  }
+
+  isVisible(): boolean {
+    return this.visible;
+  }
+
+  toggle(): void {
+    if (this.visible) {
+      this.hide();
+    } else {
+      this.show();
+    }
+  }
+
+  show(): void {
+    this.visible = true;
+    this.containerEl.style.display = 'flex';
+    this.render();
+  }
+
+  hide(): void {
+    this.visible = false;
+    this.containerEl.style.display = 'none';
+    this.containerEl.empty();
+  }
+
+  /**
+   * Re-render the list if the panel is open (e.g. after a thread changes).
+   */
+  refresh(): void {
+    if (this.visible) this.render();
+  }
+
+  private render(): void {
+    this.containerEl.empty();
+
+    const threads = sortThreadsForHistory(this.callbacks.getThreads());
+    if (threads.length === 0) {
+      this.containerEl.createDiv({
+        cls: 'copilot-chat-history-empty',
+        text: 'No conversations yet',
+      });
+      return;
+    }
+
+    const currentId = this.callbacks.getCurrentThreadId();
+    for (const thread of threads) {
+      const itemEl = this.containerEl.createDiv({ cls: 'copilot-chat-history-item' });
+      if (thread.id === currentId) itemEl.addClass('is-active');
+      if (thread.pinned) itemEl.addClass('is-pinned');
+
+      const infoEl = itemEl.createDiv({ cls: 'copilot-chat-history-info' });
+      infoEl.createDiv({ cls: 'copilot-chat-history-title', text: getThreadTitle(thread) });
+      infoEl.createDiv({
+        cls: 'copilot-chat-history-meta',
+        text: `${formatUpdated(thread.updated)} · ${thread.messages.length} messages`,
+      });
+      infoEl.addEventListener('click', () => this.callbacks.onSelect(thread));
+
+      const actionsEl = itemEl.createDiv({ cls: 'copilot-chat-history-actions' });
+
+      this.addActionButton(actionsEl, thread.pinned ? 'pin-off' : 'pin', thread.pinned ? 'Unpin' : 'Pin', () => {
+        this.callbacks.onTogglePin(thread);
+      });
+
+      this.addActionButton(actionsEl, 'pencil', 'Rename', () => {
+        new RenameThreadModal(this.app, getThreadTitle(thread), (title) => {
+          this.callbacks.onRename(thread, title);
+        }).open();
+      });
+
+      this.addActionButton(actionsEl, 'trash', 'Delete', () => {
+        this.callbacks.onDelete(thread);
+      });
+    }
+  }
+
+  private addActionButton(
+    parentEl: HTMLElement,
+    icon: string,
+    label: string,
+    onClick: () => void,
+  ): void {
+    const btn = parentEl.createEl('button', {
+      cls: 'clickable-icon copilot-chat-history-action',
+      attr: { 'aria-label': label },
+    });
+    setIcon(btn, icon);
+    btn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      onClick();
+    });
+  }
+}
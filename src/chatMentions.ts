@@ -0,0 +1,100 @@
+import { App, FuzzySuggestModal, TFile } from 'obsidian';
+
+// ── Mention Types ──────────────────────────────────────────────────────────────
+
+export type MentionKind = 'file' | 'heading' | 'block';
+
+export interface NoteMention {
+  kind: MentionKind;
+  path: string;
+  heading?: string;
+  blockId?: string;
+}
+
+/**
+ * Returns a short label for a mention, e.g. "Note", "Note#Heading" or "Note#^block".
+ */
+export function getMentionLabel(mention: NoteMention): string {
+  const basename = mention.path.replace(/^.*\//, '').replace(/\.md$/, '');
+  if (mention.kind === 'heading') return `${basename}#${mention.heading}`;
+  if (mention.kind === 'block') return `${basename}#^${mention.blockId}`;
+  return basename;
+}
+
+export function isSameMention(a: NoteMention, b: NoteMention): boolean {
+  return a.kind === b.kind && a.path === b.path && a.heading === b.heading && a.blockId === b.blockId;
+}
+
+// ── Mention Resolution ─────────────────────────────────────────────────────────
+
+/**
+ * Reads the text a mention refers to: the whole note, the section under a
+ * heading (up to the next heading of the same or higher level), or a block.
+ * Returns null if the note or the referenced part no longer exists.
+ */
+export async function resolveMention(app: App, mention: NoteMention): Promise<string | null> {
+  const file = app.vault.getAbstractFileByPath(mention.path);
+  if (!(file instanceof TFile)) return null;
+
+  const content = await app.vault.read(file);
+  if (mention.kind === 'file') return content;
+
+  const cache = app.metadataCache.getFileCache(file);
+
+  if (mention.kind === 'heading') {
+    const headings = cache?.headings ?? [];
+    const index = headings.findIndex((h) => h.heading === mention.heading);
+    if (index === -1) return null;
+
+    const heading = headings[index];
+    const next = headings.slice(index + 1).find((h) => h.level <= heading.level);
+    const end = next ? next.position.start.offset : content.length;
+    return content.slice(heading.position.start.offset, end).trim();
+  }
+
+  const block = mention.blockId ? cache?.blocks?.[mention.blockId] : undefined;
+  if (!block) return null;
+  return content.slice(block.position.start.offset, block.position.end.offset).trim();
+}
+
+// ── Mention Picker ─────────────────────────────────────────────────────────────
+
+/**
+ * Fuzzy picker over vault notes, their headings and their block references.
+ */
+export class MentionSuggestModal extends FuzzySuggestModal<NoteMention> {
+  private onChooseMention: (mention: NoteMention) => void;
+
+  constructor(app: App, onChoose: (mention: NoteMention) => void) {
+    super(app);
+    this.onChooseMention = onChoose;
+    this.setPlaceholder('Mention a note, heading or block...');
+  }
+
+  getItems(): NoteMention[] {
+    const items: NoteMention[] = [];
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      items.push({ kind: 'file', path: file.path });
+
+      const cache = this.app.metadataCache.getFileCache(file);
+      for (const heading of cache?.headings ?? []) {
+        items.push({ kind: 'heading', path: file.path, heading: heading.heading });
+      }
+      for (const blockId of Object.keys(cache?.blocks ?? {})) {
+        items.push({ kind: 'block', path: file.path, blockId });
+      }
+    }
+    return items;
+  }
+
+  getItemText(mention: NoteMention): string {
+    const prefix = mention.path.replace(/\.md$/, '');
+    if (mention.kind === 'heading') return `${prefix}#${mention.heading}`;
+    if (mention.kind === 'block') return `${prefix}#^${mention.blockId}`;
+    return prefix;
+  }
+
+  onChooseItem(mention: NoteMention): void {
+    this.onChooseMention(mention);
+  }
+}
@@ -0,0 +1,259 @@
+import { App, FuzzySuggestModal, Modal, Notice, Setting, TFile, getFrontMatterInfo } from 'obsidian';
+import {
+  ChatPersona,
+  ChatThread,
+  CopilotChatSettings,
+  DEFAULT_PERSONAS,
+  DEFAULT_PERSONA_ID,
+  PersonaContextPolicy,
+} from './chatTypes';
+import { ModelInfo, populateModelSelect } from './modelRegistry';
+
+// ── Persona Lookup ─────────────────────────────────────────────────────────────
+
+export function getPersona(settings: CopilotChatSettings, personaId?: string): ChatPersona {
+  return (
+    settings.personas.find((p) => p.id === personaId) ??
+    settings.personas.find((p) => p.id === settings.defaultPersonaId) ??
+    settings.personas[0] ??
+    DEFAULT_PERSONAS[0]
+  );
+}
+
+export function getThreadPersona(settings: CopilotChatSettings, thread: ChatThread): ChatPersona {
+  return getPersona(settings, thread.personaId);
+}
+
+/**
+ * Returns the persona's system prompt, reading it from its source note (minus
+ * frontmatter) when one is set. Falls back to the stored prompt if the note
+ * is missing or empty.
+ */
+export async function resolvePersonaSystemPrompt(app: App, persona: ChatPersona): Promise<string> {
+  if (!persona.sourceNote) return persona.systemPrompt;
+
+  const file = app.vault.getAbstractFileByPath(persona.sourceNote);
+  if (!(file instanceof TFile)) {
+    console.error(`Persona note not found: ${persona.sourceNote}`);
+    return persona.systemPrompt;
+  }
+
+  const content = await app.vault.cachedRead(file);
+  const body = content.slice(getFrontMatterInfo(content).contentStart).trim();
+  return body || persona.systemPrompt;
+}
+
+/**
+ * Whether chats using this persona should include the active document.
+ */
+export function personaIncludesContext(persona: ChatPersona, autoIncludeContext: boolean): boolean {
+  if (persona.contextPolicy === 'always') return true;
+  if (persona.contextPolicy === 'never') return false;
+  return autoIncludeContext;
+}
+
+function createPersonaId(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'persona'}-${Date.now().toString(36)}`;
+}
+
+// ── Note Picker ────────────────────────────────────────────────────────────────
+
+class PersonaNoteModal extends FuzzySuggestModal<TFile> {
+  private onChooseFile: (file: TFile) => void;
+
+  constructor(app: App, onChoose: (file: TFile) => void) {
+    super(app);
+    this.onChooseFile = onChoose;
+    this.setPlaceholder('Choose a note to use as the system prompt...');
+  }
+
+  getItems(): TFile[] {
+    return this.app.vault.getMarkdownFiles();
+  }
+
+  getItemText(file: TFile): string {
+    return file.path;
+  }
+
+  onChooseItem(file: TFile): void {
+    this.onChooseFile(file);
+  }
+}
+
+// ── Persona Manager ────────────────────────────────────────────────────────────
+
+const CONTEXT_POLICY_LABELS: Record<PersonaContextPolicy, string> = {
+  default: 'Follow chat setting',
+  always: 'Always include active document',
+  never: 'Never include active document',
+};
+
+/**
+ * Modal for adding, editing and deleting chat personas.
+ */
+export class PersonaManagerModal extends Modal {
+  private settings: CopilotChatSettings;
+  private availableModels: ModelInfo[];
+  private onChange: () => void;
+  private onDone: () => void;
+
+  constructor(
+    app: App,
+    settings: CopilotChatSettings,
+    availableModels: ModelInfo[],
+    onChange: () => void,
+    onDone: () => void,
+  ) {
+    super(app);
+    this.settings = settings;
+    this.availableModels = availableModels;
+    this.onChange = onChange;
+    this.onDone = onDone;
+  }
+
+  onOpen(): void {
+    this.titleEl.setText('Chat personas');
+    this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.onDone();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    this.settings.personas.forEach((persona) => {
+      const wrapper = contentEl.createDiv({ cls: 'copilot-action-block' });
+      const isDefault = persona.id === this.settings.defaultPersonaId;
+
+      new Setting(wrapper)
+        .setName(persona.name + (isDefault ? ' (default)' : ''))
+        .setHeading()
+        .addButton((btn) =>
+          btn
+            .setButtonText('Make default')
+            .setDisabled(isDefault)
+            .onClick(() => {
+              this.settings.defaultPersonaId = persona.id;
+              this.changed(true);
+            })
+        )
+        .addButton((btn) =>
+          btn
+            .setButtonText('Delete')
+            .setClass('copilot-action-delete')
+            .setDisabled(this.settings.personas.length <= 1)
+            .onClick(() => {
+              this.settings.personas = this.settings.personas.filter((p) => p.id !== persona.id);
+              if (isDefault) {
+                this.settings.defaultPersonaId = this.settings.personas[0]?.id ?? DEFAULT_PERSONA_ID;
+              }
+              this.changed(true);
+            })
+        );
+
+      new Setting(wrapper).setName('Name').addText((text) =>
+        text.setValue(persona.name).onChange((value) => {
+          persona.name = value;
+          this.changed();
+        })
+      );
+
+      new Setting(wrapper)
+        .setName('Default model')
+        .setDesc('Model for conversations using this persona')
+        .addDropdown((dropdown) => {
+          populateModelSelect(dropdown.selectEl, this.availableModels, persona.model || '', 'Use chat default');
+          dropdown.onChange((value) => {
+            persona.model = value || undefined;
+            this.changed();
+          });
+        });
+
+      new Setting(wrapper).setName('Document context').addDropdown((dropdown) => {
+        for (const [value, label] of Object.entries(CONTEXT_POLICY_LABELS)) {
+          dropdown.addOption(value, label);
+        }
+        dropdown.setValue(persona.contextPolicy).onChange((value) => {
+          persona.contextPolicy = value as PersonaContextPolicy;
+          this.changed();
+        });
+      });
+
+      new Setting(wrapper)
+        .setName('Prompt note')
+        .setDesc(persona.sourceNote
+          ? `System prompt is read from ${persona.sourceNote}`
+          : 'Optionally read the system prompt from a vault note')
+        .addButton((btn) =>
+          btn.setButtonText(persona.sourceNote ? 'Change' : 'Choose note').onClick(() => {
+            new PersonaNoteModal(this.app, (file) => {
+              persona.sourceNote = file.path;
+              this.changed(true);
+            }).open();
+          })
+        )
+        .addExtraButton((btn) => {
+          btn
+            .setIcon('x')
+            .setTooltip('Stop using note')
+            .setDisabled(!persona.sourceNote)
+            .onClick(() => {
+              persona.sourceNote = undefined;
+              this.changed(true);
+            });
+        });
+
+      if (!persona.sourceNote) {
+        new Setting(wrapper).setName('System prompt').addTextArea((ta) => {
+          ta.setValue(persona.systemPrompt).onChange((value) => {
+            persona.systemPrompt = value;
+            this.changed();
+          });
+          ta.inputEl.rows = 4;
+          ta.inputEl.addClass('copilot-textarea-full-width');
+        });
+      }
+    });
+
+    new Setting(contentEl)
+      .addButton((btn) =>
+        btn.setButtonText('Import from note').onClick(() => {
+          new PersonaNoteModal(this.app, (file) => {
+            this.settings.personas.push({
+              id: createPersonaId(file.basename),
+              name: file.basename,
+              systemPrompt: '',
+              contextPolicy: 'default',
+              sourceNote: file.path,
+            });
+            new Notice(`Persona "${file.basename}" added`);
+            this.changed(true);
+          }).open();
+        })
+      )
+      .addButton((btn) =>
+        btn
+          .setButtonText('+ Add persona')
+          .setCta()
+          .onClick(() => {
+            this.settings.personas.push({
+              id: createPersonaId('New persona'),
+              name: 'New persona',
+              systemPrompt: 'You are a helpful AI assistant integrated into Obsidian.',
+              contextPolicy: 'default',
+            });
+            this.changed(true);
+          })
+      );
+  }
+
+  private changed(rerender = false): void {
+    this.onChange();
+    if (rerender) this.render();
+  }
+}
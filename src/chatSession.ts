@@ -1,15 +1,27 @@
-import { CopilotSession } from '@github/copilot-sdk';
 import type CopilotPlugin from './main';
-import { ChatThread } from './chatTypes';
+import { ChatMessage, ChatThread, DEFAULT_PERSONAS } from './chatTypes';
+import { ProviderSession, sendWithAbort } from './modelProvider';
+
+const SUMMARY_SYSTEM_MESSAGE = 'You summarize conversations between a user and an AI assistant. Keep facts, decisions, names, and open questions. Output only the summary, in a few short paragraphs.';
+
+function formatHistory(history: ChatMessage[]): string {
+  return history
+    .filter((m) => m.content.trim())
+    .map((m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content.trim()}`)
+    .join('\n\n');
+}
 
 // ── Chat Session Manager ───────────────────────────────────────────────────────
 
+export interface SessionOptions {
+  history?: ChatMessage[]; // Earlier messages on the active branch
+  systemPrompt?: string; // Persona system prompt; defaults to the built-in assistant
+}
+
 export class ChatSessionManager {
   private plugin: CopilotPlugin;
-  private activeSessions: Map<string, CopilotSession>;
+  private activeSessions: Map<string, ProviderSession>;
   private activeMessageId: number = 0;
-  private handlerRegistered: Set<string> = new Set();
-  private _currentDeltaHandler: ((event: any) => void) | null = null;
 
   constructor(plugin: CopilotPlugin) {
     this.plugin = plugin;
@@ -17,11 +29,16 @@ export class ChatSessionManager {
   }
 
   /**
-   * Get or create a Copilot session for a thread
+   * Get or create a session with the thread's model provider. A new session is
+   * seeded with the given history so the model carries on the same
+   * conversation after a reload, model change or branch switch.
    */
-  async getOrCreateSession(thread: ChatThread): Promise<CopilotSession | null> {
-    if (!this.plugin.copilotClient) {
-      console.error('Copilot client not initialized');
+  async getOrCreateSession(thread: ChatThread, options: SessionOptions = {}): Promise<ProviderSession | null> {
+    // Threads on a model that is no longer available move to the fallback
+    thread.model = this.plugin.resolveModel(thread.model);
+    const modelError = this.plugin.getModelError(thread.model);
+    if (modelError) {
+      console.error(modelError);
       return null;
     }
 
@@ -30,60 +47,126 @@ export class ChatSessionManager {
       return this.activeSessions.get(thread.id)!;
     }
 
+    const systemMessage = await this.buildSystemMessage(
+      thread,
+      options.systemPrompt || DEFAULT_PERSONAS[0].systemPrompt,
+      options.history ?? [],
+    );
+
     try {
       // Create new session
-      const session = await this.plugin.copilotClient.createSession({
-        model: thread.model,
-        streaming: true,
-        systemMessage: {
-          content: 'You are a helpful AI assistant integrated into Obsidian. When helping users with their documents, provide suggestions, explanations, and content they can use. Never attempt to create, modify, or save files yourself - only provide the content or suggestions. If the user asks you to make changes to their document, provide the modified content that they can review and apply.',
-        },
-      });
+      const session = await this.plugin.createModelSession(thread.model, systemMessage, true);
 
       this.activeSessions.set(thread.id, session);
       return session;
     } catch (error) {
-      console.error('Failed to create Copilot session:', error);
+      console.error('Failed to create chat session:', error);
       return null;
     }
   }
 
   /**
-   * Send a message and handle streaming response
+   * Builds the system message for a new session: the persona's instructions, a
+   * summary of messages older than the history window (if enabled), and the
+   * messages inside the window replayed verbatim.
+   */
+  private async buildSystemMessage(thread: ChatThread, systemPrompt: string, history: ChatMessage[]): Promise<string> {
+    const { chatHistoryWindow, chatSummarizeOlderHistory } = this.plugin.settings;
+    const messages = history.filter((m) => !m.streaming && m.content.trim());
+    const windowSize = Math.max(0, chatHistoryWindow);
+    const recent = windowSize > 0 ? messages.slice(-windowSize) : [];
+    const older = messages.slice(0, messages.length - recent.length);
+
+    let systemMessage = systemPrompt;
+
+    if (older.length > 0 && chatSummarizeOlderHistory) {
+      const summary = await this.summarizeHistory(thread, older);
+      if (summary) {
+        systemMessage += `\n\nSummary of the earlier conversation:\n${summary}`;
+      }
+    }
+
+    if (recent.length > 0) {
+      systemMessage += `\n\nThe conversation so far (continue from here):\n\n${formatHistory(recent)}`;
+    }
+
+    return systemMessage;
+  }
+
+  /**
+   * Summarizes messages that fall outside the history window. The summary is
+   * cached on the thread and reused while the summarized messages are unchanged.
+   */
+  private async summarizeHistory(thread: ChatThread, messages: ChatMessage[]): Promise<string | null> {
+    const lastId = messages[messages.length - 1].id;
+    if (thread.historySummary?.throughMessageId === lastId) {
+      return thread.historySummary.text;
+    }
+    if (this.plugin.getModelError(thread.model)) return null;
+
+    let session: ProviderSession | null = null;
+    try {
+      session = await this.plugin.createModelSession(thread.model, SUMMARY_SYSTEM_MESSAGE);
+      const response = await session.send(formatHistory(messages));
+      const text = response.trim();
+      if (!text) return null;
+
+      thread.historySummary = { throughMessageId: lastId, text };
+      return text;
+    } catch (error) {
+      console.error('Failed to summarize conversation history:', error);
+      return null;
+    } finally {
+      if (session) {
+        try {
+          await session.destroy();
+        } catch (error) {
+          console.error('Error destroying session:', error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Send a message and handle streaming response. `options` are only used if a
+   * new session has to be created for the thread. Aborting `signal` stops the
+   * reply at the provider and rejects right away.
    */
   async sendMessage(
     thread: ChatThread,
     content: string,
     onDelta: (deltaContent: string) => void,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    options: SessionOptions = {},
   ): Promise<void> {
-    const session = await this.getOrCreateSession(thread);
+    const session = await this.getOrCreateSession(thread, options);
     if (!session) {
       throw new Error('Failed to create session');
     }
 
-    // Use a message ID to ensure only the current handler processes deltas
+    // Use a message ID to ensure only the current message processes deltas
     const messageId = ++this.activeMessageId;
 
-    // Only register one handler per session — subsequent calls reuse it
-    if (!this.handlerRegistered.has(thread.id)) {
-      session.on('assistant.message_delta', (event: any) => {
-        if (this._currentDeltaHandler) {
-          this._currentDeltaHandler(event);
-        }
-      });
-      this.handlerRegistered.add(thread.id);
-    }
-
-    // Set the current handler — old ones are replaced, not stacked
-    this._currentDeltaHandler = (event: any) => {
+    const handleDelta = (deltaContent: string) => {
       if (messageId !== this.activeMessageId) return;
-      if (signal?.aborted) return;
-      const deltaContent = event.data.deltaContent || '';
       onDelta(deltaContent);
     };
+    if (!signal) {
+      await session.send(content, handleDelta);
+      return;
+    }
 
-    await session.sendAndWait({ prompt: content });
+    try {
+      await sendWithAbort(session, content, signal, handleDelta);
+    } catch (error) {
+      if (signal.aborted) {
+        // The stopped reply may still be winding down; the next message gets a
+        // fresh session, seeded from the thread's history, so they can't overlap
+        if (this.activeSessions.get(thread.id) === session) this.activeSessions.delete(thread.id);
+        void session.destroy().catch(() => undefined);
+      }
+      throw error;
+    }
   }
 
   /**
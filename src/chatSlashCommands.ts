@@ -0,0 +1,176 @@
+import type { CopilotAction } from './main';
+
+// ── Slash Command Definitions ──────────────────────────────────────────────────
+
+export type MetaCommandName = 'clear' | 'model' | 'context';
+
+export interface SlashCommand {
+  name: string;
+  description: string;
+  action?: CopilotAction; // Set for commands generated from configured actions
+  meta?: MetaCommandName; // Set for built-in commands
+}
+
+export interface SlashSuggestion {
+  label: string;
+  description: string;
+  completion: string; // Input value after accepting the suggestion
+}
+
+const META_COMMANDS: SlashCommand[] = [
+  { name: 'clear', meta: 'clear', description: 'Start a new conversation' },
+  { name: 'model', meta: 'model', description: 'Switch model, e.g. /model gpt-4o' },
+  { name: 'context', meta: 'context', description: 'Turn automatic document context on or off' },
+];
+
+/**
+ * Lowercase, hyphenated form of an action name, e.g. "Fix spelling and grammar"
+ * becomes "fix-spelling-and-grammar".
+ */
+export function getActionSlug(action: CopilotAction): string {
+  return action.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+export function buildSlashCommands(actions: CopilotAction[]): SlashCommand[] {
+  const actionCommands = actions
+    .filter((action) => getActionSlug(action))
+    .map((action) => ({
+      name: getActionSlug(action),
+      description: `${action.icon} ${action.name}`,
+      action,
+    }));
+  return [...META_COMMANDS, ...actionCommands];
+}
+
+// ── Parsing ────────────────────────────────────────────────────────────────────
+
+export function parseSlashInput(input: string): { name: string; args: string } | null {
+  const match = input.match(/^\/([\w-]*)(?:\s+([\s\S]*))?$/);
+  if (!match) return null;
+  return { name: match[1].toLowerCase(), args: (match[2] ?? '').trim() };
+}
+
+/**
+ * Finds a command by exact name, or by a prefix that matches exactly one
+ * command (so "/fix" runs "fix-spelling-and-grammar").
+ */
+export function findSlashCommand(name: string, commands: SlashCommand[]): SlashCommand | null {
+  const exact = commands.find((c) => c.name === name);
+  if (exact) return exact;
+  const prefixed = commands.filter((c) => c.name.startsWith(name));
+  return prefixed.length === 1 ? prefixed[0] : null;
+}
+
+/**
+ * Suggestions for the current input: command names while typing the command,
+ * then argument values for /model and /context.
+ */
+export function getSlashSuggestions(
+  input: string,
+  commands: SlashCommand[],
+  models: { id: string; name: string }[],
+): SlashSuggestion[] {
+  const parsed = parseSlashInput(input);
+  if (!parsed) return [];
+
+  const typingName = !/\s/.test(input);
+  if (typingName) {
+    return commands
+      .filter((c) => c.name.includes(parsed.name))
+      .sort((a, b) => Number(!a.name.startsWith(parsed.name)) - Number(!b.name.startsWith(parsed.name)))
+      .map((c) => ({ label: '/' + c.name, description: c.description, completion: `/${c.name} ` }));
+  }
+
+  const command = findSlashCommand(parsed.name, commands);
+  const query = parsed.args.toLowerCase();
+  if (command?.meta === 'model') {
+    return models
+      .filter((m) => m.id.toLowerCase().includes(query) || m.name.toLowerCase().includes(query))
+      .map((m) => ({ label: m.name, description: m.id, completion: `/model ${m.id}` }));
+  }
+  if (command?.meta === 'context') {
+    return ['on', 'off']
+      .filter((value) => value.startsWith(query))
+      .map((value) => ({
+        label: value,
+        description: value === 'on' ? 'Include the active document' : 'Send messages without the active document',
+        completion: `/context ${value}`,
+      }));
+  }
+  return [];
+}
+
+// ── Suggestion Popup ───────────────────────────────────────────────────────────
+
+/**
+ * Autocomplete list shown above the chat input while typing a slash command.
+ */
+export class SlashCommandSuggest {
+  private containerEl: HTMLElement;
+  private suggestions: SlashSuggestion[] = [];
+  private selectedIndex = 0;
+  private onAccept: (suggestion: SlashSuggestion, viaEnter: boolean) => void;
+
+  constructor(parentEl: HTMLElement, onAccept: (suggestion: SlashSuggestion, viaEnter: boolean) => void) {
+    this.onAccept = onAccept;
+    this.containerEl = parentEl.createDiv({ cls: 'copilot-chat-slash-suggest' });
+    this.containerEl.style.display = 'none';
+  }
+
+  isOpen(): boolean {
+    return this.suggestions.length > 0;
+  }
+
+  setSuggestions(suggestions: SlashSuggestion[]): void {
+    this.suggestions = suggestions;
+    this.selectedIndex = 0;
+    this.render();
+  }
+
+  close(): void {
+    this.setSuggestions([]);
+  }
+
+  /**
+   * Handles navigation keys while the list is open. Returns true if the key
+   * was consumed.
+   */
+  handleKeydown(e: KeyboardEvent): boolean {
+    if (!this.isOpen()) return false;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      this.selectedIndex = (this.selectedIndex + step + this.suggestions.length) % this.suggestions.length;
+      this.render();
+    } else if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey)) {
+      this.onAccept(this.suggestions[this.selectedIndex], e.key === 'Enter');
+    } else if (e.key === 'Escape') {
+      this.close();
+    } else {
+      return false;
+    }
+
+    e.preventDefault();
+    e.stopPropagation();
+    return true;
+  }
+
+  private render(): void {
+    this.containerEl.empty();
+    this.containerEl.style.display = this.isOpen() ? 'flex' : 'none';
+
+    this.suggestions.forEach((suggestion, index) => {
+      const itemEl = this.containerEl.createDiv({ cls: 'copilot-chat-slash-item' });
+      if (index === this.selectedIndex) itemEl.addClass('is-selected');
+      itemEl.createSpan({ cls: 'copilot-chat-slash-label', text: suggestion.label });
+      itemEl.createSpan({ cls: 'copilot-chat-slash-description', text: suggestion.description });
+      itemEl.addEventListener('mousedown', (e) => {
+        // Keep focus in the textarea
+        e.preventDefault();
+        this.onAccept(suggestion, false);
+      });
+    });
+
+    this.containerEl.querySelector('.is-selected')?.scrollIntoView({ block: 'nearest' });
+  }
+}
@@ -1,36 +1,115 @@
+import { ContextBudgetStrategy } from './contextBudget';
+import { NoteMention } from './chatMentions';
+
 // ── Chat Types and Interfaces ─────────────────────────────────────────────────
 
 export const VIEW_TYPE_COPILOT_CHAT = 'copilot-chat';
 
 export type MessageRole = 'user' | 'assistant' | 'system';
 
+// A context block sent with a question, cited in replies as [id]
+export interface ChatCitation {
+  id: number;
+  path: string; // Vault path, or the note name for a referenced selection
+  heading?: string;
+  blockId?: string;
+}
+
+// Text sent to the chat from an editor selection
+export interface SelectionContext {
+  text: string;
+  sourceFile: string; // Basename of the note, shown in the chat
+  sourcePath?: string; // Vault path of the note
+}
+
 export interface ChatMessage {
   id: string;
   role: MessageRole;
   content: string;
   timestamp: number;
   streaming?: boolean;
+  parentId?: string | null; // Message this one replies to; null for the first message
+  model?: string; // Model that generated an assistant message
+  citations?: ChatCitation[]; // Sources included with the prompt (user) or available to the reply (assistant)
+  selection?: SelectionContext; // Selection referenced by a user message
+  mentions?: NoteMention[]; // Notes, headings or blocks @-mentioned in a user message
+  parameters?: Record<string, string>; // Action parameter values of a slash command, by name
 }
 
 export interface ChatThread {
   id: string;
-  messages: ChatMessage[];
+  messages: ChatMessage[]; // All messages across every branch
+  activeLeafId?: string | null; // Last message of the branch currently shown
   model: string;
+  personaId?: string;
   contextFile?: string;
+  title?: string; // User-assigned title; auto-generated from the first message when unset
+  pinned?: boolean;
+  historySummary?: { throughMessageId: string; text: string }; // Cached summary of messages outside the history window
   created: number;
   updated: number;
 }
 
+// Whether a persona's chats include the active document:
+// 'default' follows the chat's document context setting.
+export type PersonaContextPolicy = 'default' | 'always' | 'never';
+
+export interface ChatPersona {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  model?: string; // Model for new threads using this persona; empty means the chat default
+  contextPolicy: PersonaContextPolicy;
+  sourceNote?: string; // Vault path of a note whose body replaces `systemPrompt`
+}
+
+export const DEFAULT_PERSONA_ID = 'default';
+
+export const DEFAULT_PERSONAS: ChatPersona[] = [
+  {
+    id: DEFAULT_PERSONA_ID,
+    name: 'Assistant',
+    systemPrompt: 'You are a helpful AI assistant integrated into Obsidian. When helping users with their documents, provide suggestions, explanations, and content they can use. Never attempt to create, modify, or save files yourself - only provide the content or suggestions. If the user asks you to make changes to their document, provide the modified content that they can review and apply.',
+    contextPolicy: 'default',
+  },
+  {
+    id: 'technical-editor',
+    name: 'Technical editor',
+    systemPrompt: 'You are an experienced technical editor working inside Obsidian. Point out unclear explanations, inconsistent terminology, missing steps, and factual risks. Suggest concrete rewrites in Markdown and keep the author\'s voice. Only provide content; never try to modify files yourself.',
+    contextPolicy: 'always',
+  },
+  {
+    id: 'zettelkasten-gardener',
+    name: 'Zettelkasten gardener',
+    systemPrompt: 'You help maintain a Zettelkasten in Obsidian. Suggest atomic notes, meaningful [[wikilinks]] between ideas, better note titles, and tags. Prefer one idea per note and explain why connections matter. Only provide content; never try to modify files yourself.',
+    contextPolicy: 'always',
+  },
+  {
+    id: 'meeting-scribe',
+    name: 'Meeting scribe',
+    systemPrompt: 'You turn rough meeting notes into clear Markdown minutes: attendees, decisions, action items as "- [ ] owner: task", and open questions. Be concise and do not invent details that are not in the notes. Only provide content; never try to modify files yourself.',
+    contextPolicy: 'default',
+  },
+];
+
 export interface CopilotChatSettings {
   threads: ChatThread[];
   currentThreadId: string | null;
-  defaultChatModel: string;
+  defaultChatModel: string; // Empty follows the plugin's default model
   autoIncludeContext: boolean;
+  contextBudgetStrategy: ContextBudgetStrategy;
+  personas: ChatPersona[];
+  defaultPersonaId: string;
+  vaultMode: boolean; // Add matching sections from across the vault to each question
 }
 
 export const DEFAULT_CHAT_SETTINGS: CopilotChatSettings = {
   threads: [],
   currentThreadId: null,
-  defaultChatModel: 'gpt-4o',
+  defaultChatModel: '',
   autoIncludeContext: true,
+  contextBudgetStrategy: 'head-tail',
+  personas: DEFAULT_PERSONAS,
+  defaultPersonaId: DEFAULT_PERSONA_ID,
+  vaultMode: false,
 };
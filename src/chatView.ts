@@ -1,13 +1,66 @@
-import { ItemView, WorkspaceLeaf, MarkdownRenderer, Notice, MarkdownView } from 'obsidian';
+import { ItemView, WorkspaceLeaf, MarkdownRenderer, Notice, MarkdownView, Menu, TFile, debounce, setIcon } from 'obsidian';
 import type CopilotPlugin from './main';
+import type { CopilotAction } from './main';
 import { ChatSessionManager } from './chatSession';
+import { ChatHistoryPanel } from './chatHistory';
+import {
+  PersonaManagerModal,
+  getPersona,
+  getThreadPersona,
+  personaIncludesContext,
+  resolvePersonaSystemPrompt,
+} from './chatPersonas';
+import {
+  appendMessage,
+  ensureMessageTree,
+  getActiveBranch,
+  getBranchBefore,
+  getLatestLeaf,
+  getSiblings,
+} from './chatBranches';
+import {
+  NoteMention,
+  MentionSuggestModal,
+  getMentionLabel,
+  isSameMention,
+  resolveMention,
+} from './chatMentions';
+import { findApplyTarget, getProposedText } from './chatApply';
+import { showInlineDiff } from './inlineDiffView';
+import { combineChanges } from './aiEditLog';
+import {
+  CITATION_INSTRUCTION,
+  getCitationHeader,
+  getCitationLabel,
+  linkCitationMarkers,
+  renderCitationList,
+} from './chatCitations';
+import {
+  ContextPart,
+  CONTEXT_BUDGET_STRATEGIES,
+  applyContextBudget,
+  formatTokenCount,
+  getContextBudget,
+} from './contextBudget';
+import {
+  SlashCommandSuggest,
+  SlashSuggestion,
+  buildSlashCommands,
+  findSlashCommand,
+  getSlashSuggestions,
+  parseSlashInput,
+} from './chatSlashCommands';
 import {
   VIEW_TYPE_COPILOT_CHAT,
+  ChatCitation,
   ChatMessage,
   ChatThread,
   CopilotChatSettings,
   DEFAULT_CHAT_SETTINGS,
+  SelectionContext,
 } from './chatTypes';
+import { populateModelSelect } from './modelRegistry';
+import { renderActionTemplates, validateTemplate } from './promptTemplate';
 
 // ── Copilot Chat View ──────────────────────────────────────────────────────────
 
@@ -18,18 +71,26 @@ export class CopilotChatView extends ItemView {
 
   private messagesContainer: HTMLElement | null = null;
   private inputElement: HTMLTextAreaElement | null = null;
-  private sendButton: HTMLElement | null = null;
+  private sendButton: HTMLButtonElement | null = null;
   private messageElements: Map<string, HTMLElement> = new Map();
   private abortController: AbortController | null = null;
-  private pendingSelectionContext: { text: string; sourceFile: string } | null = null;
+  private pendingSelectionContext: SelectionContext | null = null;
   private selectionContextChip: HTMLElement | null = null;
+  private pendingMentions: NoteMention[] = [];
+  private mentionChipsContainer: HTMLElement | null = null;
   private modelSelect: HTMLSelectElement | null = null;
+  private personaSelect: HTMLSelectElement | null = null;
+  private historyPanel: ChatHistoryPanel | null = null;
+  private tokenEstimateEl: HTMLElement | null = null;
+  private vaultModeButton: HTMLElement | null = null;
+  private slashSuggest: SlashCommandSuggest | null = null;
+  private requestTokenEstimate = debounce(() => void this.updateTokenEstimate(), 500, true);
 
   constructor(leaf: WorkspaceLeaf, plugin: CopilotPlugin) {
     super(leaf);
     this.plugin = plugin;
     this.sessionManager = new ChatSessionManager(plugin);
-    this.settings = { ...DEFAULT_CHAT_SETTINGS };
+    this.settings = structuredClone(DEFAULT_CHAT_SETTINGS);
   }
 
   getViewType(): string {
@@ -51,6 +112,10 @@ export class CopilotChatView extends ItemView {
     // Build UI
     this.buildUI();
 
+    if (this.settings.vaultMode) {
+      this.app.workspace.onLayoutReady(() => void this.plugin.vaultIndex.ensureBuilt());
+    }
+
     // Create initial thread if none exists
     if (this.settings.threads.length === 0) {
       this.createNewThread();
@@ -63,6 +128,7 @@ export class CopilotChatView extends ItemView {
     this.registerEvent(
       this.app.workspace.on('file-open', () => {
         this.updateContextDisplay();
+        this.requestTokenEstimate();
       })
     );
 
@@ -70,8 +136,12 @@ export class CopilotChatView extends ItemView {
     this.registerEvent(
       this.app.workspace.on('editor-change', () => {
         this.updateContextDisplay();
+        this.requestTokenEstimate();
       })
     );
+
+    // Models can change when providers connect or are refreshed
+    this.register(this.plugin.modelRegistry.onChange(() => this.populateModelSelect()));
   }
 
   async onClose(): Promise<void> {
@@ -103,10 +173,98 @@ export class CopilotChatView extends ItemView {
     newButton.innerHTML = '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><line x1="12" y1="5" x2="12" y2="19"></line><line x1="5" y1="12" x2="19" y2="12"></line></svg>';
     newButton.addEventListener('click', () => this.createNewThread());
 
+    // Persona selector + manage button
+    this.personaSelect = toolbar.createEl('select', { cls: 'copilot-model-select copilot-persona-select' });
+    this.populatePersonaSelect();
+    this.personaSelect.addEventListener('change', () => {
+      if (this.personaSelect) {
+        void this.setThreadPersona(this.personaSelect.value);
+      }
+    });
+
+    const personaButton = toolbar.createEl('button', {
+      cls: 'clickable-icon',
+      attr: { 'aria-label': 'Manage personas' },
+    });
+    setIcon(personaButton, 'user-cog');
+    personaButton.addEventListener('click', () => {
+      new PersonaManagerModal(
+        this.app,
+        this.settings,
+        this.plugin.availableModels,
+        () => {
+          this.populatePersonaSelect();
+          void this.saveSettings();
+        },
+        () => {
+          // Recreate sessions so edited prompts take effect on the next message
+          void this.sessionManager.destroyAllSessions();
+          this.updateContextDisplay();
+          this.requestTokenEstimate();
+        },
+      ).open();
+    });
+
+    // Vault mode toggle
+    this.vaultModeButton = toolbar.createEl('button', {
+      cls: 'clickable-icon',
+      attr: { 'aria-label': 'Vault mode: answer from notes across the vault' },
+    });
+    setIcon(this.vaultModeButton, 'library');
+    this.vaultModeButton.toggleClass('is-active', this.settings.vaultMode);
+    this.vaultModeButton.addEventListener('click', () => {
+      void this.toggleVaultMode();
+    });
+
     // Context indicator
     const contextIndicator = toolbar.createDiv({ cls: 'copilot-chat-context' });
     this.updateContextIndicator(contextIndicator);
 
+    // Token estimate (click to choose the truncation strategy)
+    this.tokenEstimateEl = toolbar.createDiv({ cls: 'copilot-chat-token-estimate' });
+    this.tokenEstimateEl.addEventListener('click', (e) => this.showBudgetStrategyMenu(e));
+
+    // Conversation history button
+    const historyButton = toolbar.createEl('button', {
+      cls: 'clickable-icon',
+      attr: { 'aria-label': 'Conversation history' },
+    });
+    setIcon(historyButton, 'history');
+    historyButton.addEventListener('click', () => {
+      this.historyPanel?.toggle();
+      historyButton.toggleClass('is-active', this.historyPanel?.isVisible() ?? false);
+    });
+
+    // Export conversation button
+    const exportButton = toolbar.createEl('button', {
+      cls: 'clickable-icon',
+      attr: { 'aria-label': 'Export conversation' },
+    });
+    setIcon(exportButton, 'file-down');
+    exportButton.addEventListener('click', () => {
+      void this.exportCurrentThread();
+    });
+
+    // Conversation history panel (hidden by default)
+    this.historyPanel = new ChatHistoryPanel(this.app, container as HTMLElement, {
+      getThreads: () => this.settings.threads,
+      getCurrentThreadId: () => this.settings.currentThreadId,
+      onSelect: (thread) => this.switchToThread(thread.id),
+      onRename: (thread, title) => {
+        thread.title = title || undefined;
+        this.historyPanel?.refresh();
+        void this.saveSettings();
+      },
+      onTogglePin: (thread) => {
+        thread.pinned = !thread.pinned;
+        this.historyPanel?.refresh();
+        void this.saveSettings();
+      },
+      onDelete: (thread) => {
+        void this.deleteThread(thread.id);
+      },
+    });
+
     // Messages container
     this.messagesContainer = container.createDiv({ cls: 'copilot-chat-messages' });
 
@@ -117,6 +275,15 @@ export class CopilotChatView extends ItemView {
     this.selectionContextChip = inputContainer.createDiv({ cls: 'copilot-chat-selection-context' });
     this.selectionContextChip.style.display = 'none';
 
+    // @-mention chips (hidden while empty)
+    this.mentionChipsContainer = inputContainer.createDiv({ cls: 'copilot-chat-mentions' });
+    this.mentionChipsContainer.style.display = 'none';
+
+    // Slash command autocomplete (hidden until the input starts with "/")
+    this.slashSuggest = new SlashCommandSuggest(inputContainer, (suggestion, viaEnter) => {
+      this.acceptSlashSuggestion(suggestion, viaEnter);
+    });
+
     // Input row (textarea + send button side by side)
     const inputRow = inputContainer.createDiv({ cls: 'copilot-chat-input-row' });
 
@@ -126,16 +293,22 @@ export class CopilotChatView extends ItemView {
       attr: { placeholder: 'Type a message...', rows: '1' },
     });
 
-    // Auto-resize textarea
-    this.inputElement.addEventListener('input', () => {
+    // Auto-resize textarea and open the mention picker on a freshly typed "@"
+    this.inputElement.addEventListener('input', (e) => {
       if (this.inputElement) {
         this.inputElement.style.height = 'auto';
         this.inputElement.style.height = this.inputElement.scrollHeight + 'px';
       }
+      if (e instanceof InputEvent && e.data === '@') {
+        this.handleMentionTrigger();
+      }
+      this.updateSlashSuggestions();
+      this.requestTokenEstimate();
     });
 
     // Handle Enter key (send) and Shift+Enter (newline)
     this.inputElement.addEventListener('keydown', (e) => {
+      if (this.slashSuggest?.handleKeydown(e)) return;
       if (e.key === 'Enter' && !e.shiftKey) {
         e.preventDefault();
         void this.handleSendMessage();
@@ -150,6 +323,7 @@ export class CopilotChatView extends ItemView {
       text: 'Send',
     });
     this.sendButton.addEventListener('click', () => this.handleSendMessage());
+    this.inputElement.addEventListener('blur', () => this.slashSuggest?.close());
 
     // Model selector row (below input)
     const modelRow = inputContainer.createDiv({ cls: 'copilot-chat-model-row' });
@@ -162,35 +336,66 @@ export class CopilotChatView extends ItemView {
         void this.sessionManager.destroySession(currentThread.id);
         void this.saveSettings();
       }
+      this.requestTokenEstimate();
     });
   }
 
   private populateModelSelect(): void {
     if (!this.modelSelect) return;
-    this.modelSelect.empty();
-    for (const model of this.plugin.availableModels) {
-      const option = this.modelSelect.createEl('option', {
-        text: model.name,
-        value: model.id,
-      });
-      option.value = model.id;
-    }
+    populateModelSelect(this.modelSelect, this.plugin.availableModels, this.getCurrentThread()?.model ?? '');
     this.updateModelSelectValue();
   }
 
+  private populatePersonaSelect(): void {
+    if (!this.personaSelect) return;
+    this.personaSelect.empty();
+    for (const persona of this.settings.personas) {
+      this.personaSelect.createEl('option', { text: persona.name, value: persona.id });
+    }
+    this.updatePersonaSelectValue();
+  }
+
+  private updatePersonaSelectValue(): void {
+    if (!this.personaSelect) return;
+    const currentThread = this.getCurrentThread();
+    this.personaSelect.value = currentThread
+      ? getThreadPersona(this.settings, currentThread).id
+      : this.settings.defaultPersonaId;
+  }
+
+  /**
+   * Switches the current thread to another persona. The session is recreated
+   * so the new system prompt applies, with the conversation replayed into it.
+   */
+  private async setThreadPersona(personaId: string): Promise<void> {
+    const currentThread = this.getCurrentThread();
+    if (!currentThread) return;
+
+    const persona = getPersona(this.settings, personaId);
+    currentThread.personaId = persona.id;
+    if (persona.model) {
+      currentThread.model = persona.model;
+      this.updateModelSelectValue();
+    }
+
+    await this.sessionManager.destroySession(currentThread.id);
+    this.updateContextDisplay();
+    this.requestTokenEstimate();
+    await this.saveSettings();
+  }
+
   private updateModelSelectValue(): void {
     if (!this.modelSelect) return;
     const currentThread = this.getCurrentThread();
     const preferred = currentThread?.model || this.settings.defaultChatModel;
-    // Use preferred model if available, otherwise fall back to first available
-    const isAvailable = Array.from(this.modelSelect.options).some((o) => o.value === preferred);
-    if (isAvailable) {
-      this.modelSelect.value = preferred;
-    } else if (this.modelSelect.options.length > 0) {
-      this.modelSelect.value = this.modelSelect.options[0].value;
+    // Use preferred model if available, otherwise fall back to the default model
+    const model = this.plugin.getEffectiveModel(preferred);
+    if (Array.from(this.modelSelect.options).some((o) => o.value === model)) {
+      this.modelSelect.value = model;
       // Update thread to reflect actual model being used
-      if (currentThread) {
-        currentThread.model = this.modelSelect.value;
+      if (currentThread && currentThread.model !== model) {
+        currentThread.model = model;
+        void this.sessionManager.destroySession(currentThread.id);
       }
     }
   }
@@ -201,9 +406,13 @@ export class CopilotChatView extends ItemView {
     const currentThread = this.getCurrentThread();
     const parts: string[] = [];
 
+    const includeContext = currentThread
+      ? personaIncludesContext(getThreadPersona(this.settings, currentThread), this.settings.autoIncludeContext)
+      : this.settings.autoIncludeContext;
+
     if (currentThread?.contextFile) {
       parts.push(`📄 ${currentThread.contextFile}`);
-    } else if (this.settings.autoIncludeContext) {
+    } else if (includeContext) {
       const activeFile = this.app.workspace.getActiveFile();
       if (activeFile) {
         parts.push(`📄 ${activeFile.basename}`);
@@ -223,6 +432,60 @@ export class CopilotChatView extends ItemView {
     }
   }
 
+  private async updateTokenEstimate(): Promise<void> {
+    if (!this.tokenEstimateEl) return;
+
+    const currentThread = this.getCurrentThread();
+    if (!currentThread) {
+      this.tokenEstimateEl.empty();
+      return;
+    }
+
+    const parts = await this.collectContextParts(
+      this.inputElement?.value ?? '',
+      this.pendingSelectionContext,
+      this.pendingMentions,
+      getActiveBranch(currentThread),
+    );
+    const budgeted = applyContextBudget(
+      parts,
+      getContextBudget(currentThread.model),
+      this.settings.contextBudgetStrategy,
+    );
+
+    this.tokenEstimateEl.setText(
+      `~${formatTokenCount(budgeted.estimatedTokens)} / ${formatTokenCount(budgeted.budget)}`,
+    );
+    this.tokenEstimateEl.toggleClass('is-trimmed', budgeted.trimmed.length > 0);
+    this.tokenEstimateEl.toggleClass('is-over-budget', budgeted.overBudget);
+
+    const tooltip = ['Estimated prompt tokens / context budget'];
+    if (budgeted.trimmed.length > 0) {
+      tooltip.push(`Trimmed to fit: ${budgeted.trimmed.join(', ')}`);
+    }
+    if (budgeted.overBudget) {
+      tooltip.push('Conversation and selection alone exceed the budget — consider starting a new conversation');
+    }
+    this.tokenEstimateEl.setAttr('aria-label', tooltip.join('\n'));
+  }
+
+  private showBudgetStrategyMenu(event: MouseEvent): void {
+    const menu = new Menu();
+    for (const strategy of CONTEXT_BUDGET_STRATEGIES) {
+      menu.addItem((item) =>
+        item
+          .setTitle(strategy.label)
+          .setChecked(this.settings.contextBudgetStrategy === strategy.value)
+          .onClick(() => {
+            this.settings.contextBudgetStrategy = strategy.value;
+            void this.saveSettings();
+            this.requestTokenEstimate();
+          })
+      );
+    }
+    menu.showAtMouseEvent(event);
+  }
+
   private toggleContextAttachment(): void {
     const currentThread = this.getCurrentThread();
     const activeFile = this.app.workspace.getActiveFile();
@@ -247,16 +510,42 @@ export class CopilotChatView extends ItemView {
     }
   }
 
+  private async toggleVaultMode(): Promise<void> {
+    this.settings.vaultMode = !this.settings.vaultMode;
+    this.vaultModeButton?.toggleClass('is-active', this.settings.vaultMode);
+    await this.saveSettings();
+
+    if (!this.settings.vaultMode) {
+      new Notice('Vault mode off');
+      return;
+    }
+
+    const index = this.plugin.vaultIndex;
+    if (!index.isLoaded()) {
+      new Notice('Indexing vault...');
+      await index.ensureBuilt();
+    }
+    new Notice(`Vault mode on: searching ${index.getFileCount()} notes`);
+    this.requestTokenEstimate();
+  }
+
+  async exportCurrentThread(): Promise<void> {
+    await this.plugin.exportThread(this.getCurrentThread());
+  }
+
   private getCurrentThread(): ChatThread | null {
     if (!this.settings.currentThreadId) return null;
     return this.settings.threads.find((t) => t.id === this.settings.currentThreadId) || null;
   }
 
   private createNewThread(): void {
+    const persona = getPersona(this.settings, this.settings.defaultPersonaId);
     const thread: ChatThread = {
       id: Date.now().toString(),
       messages: [],
-      model: this.settings.defaultChatModel,
+      activeLeafId: null,
+      model: this.plugin.getEffectiveModel(persona.model || this.settings.defaultChatModel),
+      personaId: persona.id,
       created: Date.now(),
       updated: Date.now(),
     };
@@ -267,12 +556,62 @@ export class CopilotChatView extends ItemView {
     this.messageElements.clear();
     this.renderMessages();
     this.updateModelSelectValue();
+    this.updatePersonaSelectValue();
+    this.updateContextDisplay();
+    this.historyPanel?.refresh();
     void this.saveSettings();
 
     new Notice('New conversation started');
   }
 
+  private switchToThread(threadId: string): void {
+    if (threadId === this.settings.currentThreadId) return;
+    if (!this.settings.threads.some((t) => t.id === threadId)) return;
+
+    // Stop streaming into the thread we're leaving
+    this.handleAbort();
+
+    this.settings.currentThreadId = threadId;
+    this.renderMessages();
+    this.updateModelSelectValue();
+    this.updatePersonaSelectValue();
+    this.updateContextDisplay();
+    this.historyPanel?.refresh();
+    void this.saveSettings();
+  }
+
+  private async deleteThread(threadId: string): Promise<void> {
+    const index = this.settings.threads.findIndex((t) => t.id === threadId);
+    if (index === -1) return;
+
+    const isCurrent = this.settings.currentThreadId === threadId;
+    if (isCurrent) {
+      this.handleAbort();
+    }
+
+    this.settings.threads.splice(index, 1);
+    await this.sessionManager.destroySession(threadId);
+
+    if (isCurrent) {
+      // Fall back to the most recently updated remaining thread
+      const next = [...this.settings.threads].sort((a, b) => b.updated - a.updated)[0];
+      if (next) {
+        this.settings.currentThreadId = next.id;
+        this.renderMessages();
+        this.updateModelSelectValue();
+        this.updatePersonaSelectValue();
+        this.updateContextDisplay();
+      } else {
+        this.createNewThread();
+      }
+    }
+
+    this.historyPanel?.refresh();
+    await this.saveSettings();
+  }
+
   private renderMessages(): void {
+    this.requestTokenEstimate();
     if (!this.messagesContainer) return;
 
     this.messagesContainer.empty();
@@ -281,7 +620,7 @@ export class CopilotChatView extends ItemView {
     const currentThread = this.getCurrentThread();
     if (!currentThread) return;
 
-    for (const message of currentThread.messages) {
+    for (const message of getActiveBranch(currentThread)) {
       const messageEl = this.renderMessage(message);
       this.messagesContainer.appendChild(messageEl);
       this.messageElements.set(message.id, messageEl);
@@ -306,13 +645,7 @@ export class CopilotChatView extends ItemView {
         contentEl.textContent = message.content || '...';
       } else {
         // Render markdown only when complete
-        MarkdownRenderer.render(
-          this.app,
-          message.content || '...',
-          contentEl,
-          '',
-          this
-        );
+        this.renderAssistantMarkdown(contentEl, message.content, message.citations ?? []);
 
         // Add action buttons for completed assistant messages
         if (message.content) {
@@ -321,8 +654,13 @@ export class CopilotChatView extends ItemView {
       }
     } else {
       contentEl.textContent = message.content;
+      if (message.role === 'user') {
+        this.addUserMessageActions(messageEl, contentEl, message);
+      }
     }
 
+    this.renderBranchNavigation(messageEl, message);
+
     // Add timestamp (optional, can be toggled in settings)
     const timestamp = messageEl.createDiv({ cls: 'copilot-message-timestamp' });
     timestamp.textContent = new Date(message.timestamp).toLocaleTimeString();
@@ -351,6 +689,141 @@ export class CopilotChatView extends ItemView {
     insertBtn.addEventListener('click', () => {
       this.insertIntoDocument(message.content);
     });
+
+    // Apply to document through the inline diff review
+    const applyBtn = actionsEl.createEl('button', {
+      cls: 'copilot-message-action-btn',
+      text: 'Apply',
+      attr: { 'aria-label': 'Review this reply as a change to the note' },
+    });
+    applyBtn.addEventListener('click', () => {
+      void this.applyToDocument(message);
+    });
+
+    // Regenerate button, with a menu to regenerate using another model
+    const regenerateBtn = actionsEl.createEl('button', {
+      cls: 'copilot-message-action-btn',
+      text: 'Regenerate',
+    });
+    regenerateBtn.addEventListener('click', () => {
+      void this.regenerateReply(message);
+    });
+
+    const regenerateWithBtn = actionsEl.createEl('button', {
+      cls: 'copilot-message-action-btn',
+      attr: { 'aria-label': 'Regenerate with another model' },
+    });
+    setIcon(regenerateWithBtn, 'chevron-down');
+    regenerateWithBtn.addEventListener('click', (e) => {
+      const menu = new Menu();
+      for (const model of this.plugin.availableModels.filter((m) => m.policy !== 'disabled')) {
+        menu.addItem((item) =>
+          item
+            .setTitle(model.name)
+            .setChecked(model.id === message.model)
+            .onClick(() => void this.regenerateReply(message, model.id))
+        );
+      }
+      menu.showAtMouseEvent(e);
+    });
+  }
+
+  private addUserMessageActions(messageEl: HTMLElement, contentEl: HTMLElement, message: ChatMessage): void {
+    const actionsEl = messageEl.createDiv({ cls: 'copilot-message-actions' });
+
+    const editBtn = actionsEl.createEl('button', {
+      cls: 'copilot-message-action-btn',
+      text: 'Edit',
+    });
+    editBtn.addEventListener('click', () => {
+      if (this.abortController) return;
+      this.showMessageEditor(contentEl, actionsEl, message);
+    });
+  }
+
+  private showMessageEditor(contentEl: HTMLElement, actionsEl: HTMLElement, message: ChatMessage): void {
+    contentEl.empty();
+    actionsEl.style.display = 'none';
+
+    const editor = contentEl.createEl('textarea', { cls: 'copilot-message-edit-input' });
+    editor.value = message.content;
+
+    const buttons = contentEl.createDiv({ cls: 'copilot-message-edit-buttons' });
+    const cancelBtn = buttons.createEl('button', { cls: 'copilot-message-action-btn', text: 'Cancel' });
+    const resendBtn = buttons.createEl('button', { cls: 'copilot-message-action-btn mod-cta', text: 'Save & resend' });
+
+    const cancel = () => {
+      contentEl.empty();
+      contentEl.textContent = message.content;
+      actionsEl.style.display = '';
+    };
+    const submit = () => {
+      const content = editor.value.trim();
+      if (!content || content === message.content) {
+        cancel();
+        return;
+      }
+      void this.editAndResend(message, content);
+    };
+
+    cancelBtn.addEventListener('click', cancel);
+    resendBtn.addEventListener('click', submit);
+    editor.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault();
+        submit();
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        cancel();
+      }
+    });
+
+    editor.focus();
+    editor.setSelectionRange(editor.value.length, editor.value.length);
+  }
+
+  /**
+   * Shows "‹ 2 / 3 ›" controls on messages that have alternative versions
+   * (regenerated replies or edited questions).
+   */
+  private renderBranchNavigation(messageEl: HTMLElement, message: ChatMessage): void {
+    const currentThread = this.getCurrentThread();
+    if (!currentThread || message.streaming) return;
+
+    const siblings = getSiblings(currentThread, message);
+    if (siblings.length < 2) return;
+
+    const index = siblings.findIndex((m) => m.id === message.id);
+    const nav = messageEl.createDiv({ cls: 'copilot-message-branch-nav' });
+
+    const prevBtn = nav.createEl('button', {
+      cls: 'clickable-icon',
+      attr: { 'aria-label': 'Previous version' },
+    });
+    setIcon(prevBtn, 'chevron-left');
+    prevBtn.disabled = index === 0;
+    prevBtn.addEventListener('click', () => void this.switchBranch(siblings[index - 1]));
+
+    nav.createSpan({ text: `${index + 1} / ${siblings.length}` });
+
+    const nextBtn = nav.createEl('button', {
+      cls: 'clickable-icon',
+      attr: { 'aria-label': 'Next version' },
+    });
+    setIcon(nextBtn, 'chevron-right');
+    nextBtn.disabled = index === siblings.length - 1;
+    nextBtn.addEventListener('click', () => void this.switchBranch(siblings[index + 1]));
+  }
+
+  private async switchBranch(message: ChatMessage): Promise<void> {
+    const currentThread = this.getCurrentThread();
+    if (!currentThread || this.abortController) return;
+
+    currentThread.activeLeafId = getLatestLeaf(currentThread, message.id);
+    // The next message starts a new session seeded with this branch
+    await this.sessionManager.destroySession(currentThread.id);
+    this.renderMessages();
+    await this.saveSettings();
   }
 
   private insertIntoDocument(content: string): void {
@@ -379,6 +852,91 @@ export class CopilotChatView extends ItemView {
     new Notice('Content inserted into document');
   }
 
+  /**
+   * Proposes a reply as a change to the note it was about and shows it in
+   * the inline diff review. The target is the referenced selection, the
+   * section or code block the reply rewrites, or else the editor's selection
+   * or cursor.
+   */
+  private async applyToDocument(message: ChatMessage): Promise<void> {
+    const currentThread = this.getCurrentThread();
+    const userMessage = currentThread?.messages.find((m) => m.id === message.parentId);
+    const selection = userMessage?.selection;
+
+    const markdownView = await this.getApplyTargetView(selection, currentThread?.contextFile);
+    if (!markdownView?.file) {
+      new Notice('No document open. Please open a markdown file.');
+      return;
+    }
+
+    const editor = markdownView.editor;
+    const target = findApplyTarget(editor.getValue(), message.content, selection?.text);
+
+    let from: number;
+    let to: number;
+    let text: string;
+    if (target) {
+      ({ from, to, text } = target);
+      new Notice(`Reviewing changes to ${target.label} in ${markdownView.file.basename}`);
+    } else if (editor.somethingSelected()) {
+      from = editor.posToOffset(editor.getCursor('from'));
+      to = editor.posToOffset(editor.getCursor('to'));
+      text = getProposedText(message.content);
+    } else {
+      from = to = editor.posToOffset(editor.getCursor());
+      text = '\n' + getProposedText(message.content) + '\n';
+    }
+
+    // @ts-expect-error - editor.cm is not typed in Obsidian's API
+    const editorView = editor.cm;
+    const acceptedHunks = await showInlineDiff(editorView, from, to, text);
+    if (acceptedHunks.length === 0) {
+      new Notice('No changes applied');
+      return;
+    }
+
+    // One undo step, logged in the AI edit history as a change covering the reviewed text
+    this.plugin.applyLoggedAiEdit(editorView, markdownView.file, [combineChanges(editorView.state.doc, acceptedHunks)], {
+      action: 'Chat',
+      model: message.model ?? currentThread?.model ?? '',
+      prompt: userMessage?.content ?? '',
+    });
+    new Notice('Changes applied');
+  }
+
+  /**
+   * Finds (or opens) the editor for the note a reply should apply to: the
+   * note the selection came from, the conversation's context note, or the
+   * most recently active note.
+   */
+  private async getApplyTargetView(
+    selection: SelectionContext | undefined,
+    contextFile: string | undefined,
+  ): Promise<MarkdownView | null> {
+    const targetPath = selection?.sourcePath
+      ?? (contextFile ? this.app.metadataCache.getFirstLinkpathDest(contextFile, '')?.path : undefined);
+
+    const leaves = this.app.workspace.getLeavesOfType('markdown');
+    if (targetPath) {
+      const leaf = leaves.find((l) => l.view instanceof MarkdownView && l.view.file?.path === targetPath);
+      if (leaf) {
+        this.app.workspace.setActiveLeaf(leaf, { focus: false });
+        return leaf.view as MarkdownView;
+      }
+
+      const file = this.app.vault.getAbstractFileByPath(targetPath);
+      if (file instanceof TFile) {
+        const newLeaf = this.app.workspace.getLeaf('tab');
+        await newLeaf.openFile(file);
+        return newLeaf.view instanceof MarkdownView ? newLeaf.view : null;
+      }
+    }
+
+    const recentLeaf = this.app.workspace.getMostRecentLeaf();
+    if (recentLeaf?.view instanceof MarkdownView) return recentLeaf.view;
+    return leaves.length > 0 ? (leaves[0].view as MarkdownView) : null;
+  }
+
   private updateMessageContent(messageId: string, content: string, isStreaming = true): void {
     const messageEl = this.messageElements.get(messageId);
     if (!messageEl) return;
@@ -391,17 +949,11 @@ export class CopilotChatView extends ItemView {
       } else {
         // When complete, render as markdown
         contentEl.empty();
-        MarkdownRenderer.render(
-          this.app,
-          content || '...',
-          contentEl as HTMLElement,
-          '',
-          this
-        );
-
-        // Add action buttons when rendering is complete
         const currentThread = this.getCurrentThread();
         const message = currentThread?.messages.find(m => m.id === messageId);
+        this.renderAssistantMarkdown(contentEl as HTMLElement, content, message?.citations ?? []);
+
+        // Add action buttons when rendering is complete
         if (message && content) {
           // Remove existing actions if any
           const existingActions = messageEl.querySelector('.copilot-message-actions');
@@ -416,6 +968,17 @@ export class CopilotChatView extends ItemView {
     this.scrollToBottom();
   }
 
+  /**
+   * Renders a reply as Markdown, then links its [n] citation markers and
+   * lists its sources.
+   */
+  private renderAssistantMarkdown(contentEl: HTMLElement, content: string, citations: ChatCitation[]): void {
+    void MarkdownRenderer.render(this.app, content || '...', contentEl, '', this).then(() => {
+      linkCitationMarkers(this.app, contentEl, citations);
+      renderCitationList(this.app, contentEl, citations);
+    });
+  }
+
   private async handleSendMessage(): Promise<void> {
     if (!this.inputElement || !this.messagesContainer) return;
 
@@ -428,47 +991,143 @@ export class CopilotChatView extends ItemView {
       return;
     }
 
-    if (!this.plugin.copilotClient) {
-      new Notice('Copilot client not initialized');
+    if (this.abortController) return;
+
+    this.slashSuggest?.close();
+    if (await this.handleSlashCommand(content)) return;
+
+    const modelError = this.plugin.getModelError(currentThread.model);
+    if (modelError) {
+      new Notice(modelError);
       return;
     }
 
-    // Capture and clear selection context before sending
+    // Capture and clear selection context and mentions before sending
     const selectionContext = this.pendingSelectionContext;
     this.clearSelectionContext();
+    const mentions = this.pendingMentions;
+    this.clearMentions();
 
     // Clear input
     this.inputElement.value = '';
     this.inputElement.style.height = 'auto';
 
-    // Disable send button
-    if (this.sendButton) {
-      this.sendButton.disabled = true;
-    }
-
     // Add user message
     const userMessage: ChatMessage = {
-      id: Date.now().toString(),
+      id: this.nextMessageId(),
       role: 'user',
       content,
       timestamp: Date.now(),
+      selection: selectionContext ?? undefined,
+      mentions: mentions.length > 0 ? mentions : undefined,
     };
 
-    currentThread.messages.push(userMessage);
+    appendMessage(currentThread, userMessage);
     const userMessageEl = this.renderMessage(userMessage);
     this.messagesContainer.appendChild(userMessageEl);
     this.messageElements.set(userMessage.id, userMessageEl);
 
+    await this.streamAssistantReply(currentThread, userMessage, () => this.buildMessagePrompt(currentThread, userMessage));
+  }
+
+  /**
+   * Asks for a new reply to an earlier question, optionally with another
+   * model. The new reply is added as an alternative to the existing one.
+   */
+  private async regenerateReply(assistantMessage: ChatMessage, model?: string): Promise<void> {
+    const currentThread = this.getCurrentThread();
+    if (!currentThread || this.abortController) return;
+
+    const userMessage = currentThread.messages.find((m) => m.id === assistantMessage.parentId);
+    if (!userMessage) return;
+
+    if (model && model !== currentThread.model) {
+      currentThread.model = model;
+      this.updateModelSelectValue();
+    }
+
+    currentThread.activeLeafId = userMessage.id;
+    await this.sessionManager.destroySession(currentThread.id);
+    this.renderMessages();
+
+    await this.streamAssistantReply(currentThread, userMessage, () => this.buildMessagePrompt(currentThread, userMessage));
+  }
+
+  /**
+   * Sends an edited copy of an earlier question as a new branch, with the
+   * selection, mentions and parameters of the original; the original
+   * question and its replies stay reachable as an alternative.
+   */
+  private async editAndResend(original: ChatMessage, content: string): Promise<void> {
+    const currentThread = this.getCurrentThread();
+    if (!currentThread || this.abortController) return;
+
+    const userMessage: ChatMessage = {
+      id: this.nextMessageId(),
+      role: 'user',
+      content,
+      timestamp: Date.now(),
+      selection: original.selection,
+      mentions: original.mentions,
+      parameters: original.parameters,
+    };
+    appendMessage(currentThread, userMessage, original.parentId ?? null);
+
+    await this.sessionManager.destroySession(currentThread.id);
+    this.renderMessages();
+
+    await this.streamAssistantReply(currentThread, userMessage, () => this.buildMessagePrompt(currentThread, userMessage));
+  }
+
+  /**
+   * Builds the prompt for a user message from what it references (selection,
+   * mentions, or a slash command's action and parameters) and the notes as
+   * they are now. Only these references are stored, so regenerating a reply
+   * rebuilds the prompt rather than replaying an old copy of the notes.
+   */
+  private async buildMessagePrompt(currentThread: ChatThread, userMessage: ChatMessage): Promise<string> {
+    const slashInput = parseSlashInput(userMessage.content);
+    const command = slashInput && findSlashCommand(slashInput.name, buildSlashCommands(this.plugin.settings.actions));
+    if (slashInput && command?.action) {
+      return this.buildActionPrompt(command.action, slashInput.args, userMessage.selection ?? null, userMessage.parameters ?? {});
+    }
+
+    const { prompt, citations } = await this.buildPromptWithContext(
+      userMessage.content,
+      userMessage.selection,
+      userMessage.mentions ?? [],
+      getBranchBefore(currentThread, userMessage.id),
+    );
+    userMessage.citations = citations.length > 0 ? citations : undefined;
+    return prompt;
+  }
+
+  /**
+   * Adds an assistant reply to `userMessage` and streams the response into it.
+   */
+  private async streamAssistantReply(
+    currentThread: ChatThread,
+    userMessage: ChatMessage,
+    getPrompt: () => Promise<string>,
+  ): Promise<void> {
+    if (!this.messagesContainer) return;
+
+    // Disable send button
+    if (this.sendButton) {
+      this.sendButton.disabled = true;
+    }
+
     // Create assistant message placeholder
     const assistantMessage: ChatMessage = {
-      id: (Date.now() + 1).toString(),
+      id: this.nextMessageId(),
       role: 'assistant',
       content: '',
       timestamp: Date.now(),
       streaming: true,
+      model: currentThread.model,
     };
 
-    currentThread.messages.push(assistantMessage);
+    appendMessage(currentThread, assistantMessage, userMessage.id);
     const assistantMessageEl = this.renderMessage(assistantMessage);
     this.messagesContainer.appendChild(assistantMessageEl);
     this.messageElements.set(assistantMessage.id, assistantMessageEl);
@@ -479,23 +1138,26 @@ export class CopilotChatView extends ItemView {
     this.abortController = new AbortController();
     const signal = this.abortController.signal;
 
-    // Build prompt with context
-    const promptWithContext = await this.buildPromptWithContext(content, selectionContext);
-
     // Stream response
     let accumulatedText = '';
 
     try {
+      const prompt = await getPrompt();
+      assistantMessage.citations = userMessage.citations;
+      const persona = getThreadPersona(this.settings, currentThread);
+      const systemPrompt = await resolvePersonaSystemPrompt(this.app, persona);
+
       await this.sessionManager.sendMessage(
         currentThread,
-        promptWithContext,
+        prompt,
         (deltaContent: string) => {
           if (signal.aborted) return;
           accumulatedText += deltaContent;
           assistantMessage.content = accumulatedText;
           this.updateMessageContent(assistantMessage.id, accumulatedText);
         },
-        signal
+        signal,
+        { history: getBranchBefore(currentThread, userMessage.id), systemPrompt },
       );
 
       // Mark streaming complete
@@ -504,9 +1166,11 @@ export class CopilotChatView extends ItemView {
 
       // Render final message with markdown
       this.updateMessageContent(assistantMessage.id, accumulatedText, false);
+      this.renderBranchNavigation(assistantMessageEl, assistantMessage);
 
       // Update thread timestamp
       currentThread.updated = Date.now();
+      this.historyPanel?.refresh();
 
       // Save settings
       await this.saveSettings();
@@ -526,8 +1190,210 @@ export class CopilotChatView extends ItemView {
       if (this.sendButton) {
         this.sendButton.disabled = false;
       }
-      this.abortController = null;
+      if (this.abortController?.signal === signal) {
+        this.abortController = null;
+      }
+      this.requestTokenEstimate();
+    }
+  }
+
+  // ── Slash Commands ─────────────────────────────────────────────────────────
+
+  private updateSlashSuggestions(): void {
+    if (!this.inputElement || !this.slashSuggest) return;
+    const commands = buildSlashCommands(this.plugin.settings.actions);
+    this.slashSuggest.setSuggestions(
+      getSlashSuggestions(this.inputElement.value, commands, this.plugin.availableModels),
+    );
+  }
+
+  private acceptSlashSuggestion(suggestion: SlashSuggestion, viaEnter: boolean): void {
+    if (!this.inputElement) return;
+
+    // Enter on a suggestion that is already fully typed sends it
+    if (viaEnter && this.inputElement.value.trim() === suggestion.completion.trim()) {
+      this.slashSuggest?.close();
+      void this.handleSendMessage();
+      return;
+    }
+
+    this.inputElement.value = suggestion.completion;
+    this.inputElement.setSelectionRange(suggestion.completion.length, suggestion.completion.length);
+    this.updateSlashSuggestions();
+  }
+
+  /**
+   * Runs `content` as a slash command if it is one. Returns true if the input
+   * was handled; input that only looks like a command, e.g. a pasted
+   * "/usr/local" path, is left to be sent as a normal message.
+   */
+  private async handleSlashCommand(content: string): Promise<boolean> {
+    const parsed = parseSlashInput(content);
+    if (!parsed || !this.inputElement) return false;
+
+    const command = findSlashCommand(parsed.name, buildSlashCommands(this.plugin.settings.actions));
+    if (!command) return false;
+
+    this.inputElement.value = '';
+    this.inputElement.style.height = 'auto';
+
+    if (command.action) {
+      await this.runActionCommand(content, command.action, parsed.args);
+    } else if (command.meta === 'clear') {
+      this.createNewThread();
+    } else if (command.meta === 'model') {
+      this.switchModel(parsed.args);
+    } else if (command.meta === 'context') {
+      this.setAutoIncludeContext(parsed.args);
     }
+    return true;
+  }
+
+  private switchModel(query: string): void {
+    const currentThread = this.getCurrentThread();
+    if (!currentThread) return;
+
+    if (!query) {
+      new Notice(`Current model: ${currentThread.model}`);
+      return;
+    }
+
+    const q = query.toLowerCase();
+    const models = this.plugin.availableModels.filter((m) => m.policy !== 'disabled');
+    const model =
+      models.find((m) => m.id.toLowerCase() === q || m.name.toLowerCase() === q) ??
+      models.find((m) => m.id.toLowerCase().startsWith(q) || m.name.toLowerCase().startsWith(q));
+    if (!model) {
+      new Notice(`Unknown model: ${query}`);
+      return;
+    }
+
+    currentThread.model = model.id;
+    this.updateModelSelectValue();
+    void this.sessionManager.destroySession(currentThread.id);
+    void this.saveSettings();
+    this.requestTokenEstimate();
+    new Notice(`Model switched to ${model.name}`);
+  }
+
+  private setAutoIncludeContext(value: string): void {
+    const enabled = value === '' ? !this.settings.autoIncludeContext : value !== 'off';
+    this.settings.autoIncludeContext = enabled;
+    void this.saveSettings();
+    this.updateContextDisplay();
+    this.requestTokenEstimate();
+    new Notice(enabled ? 'Document context on' : 'Document context off');
+  }
+
+  /**
+   * Applies a configured action's system and prompt to the referenced
+   * selection (or the active document) and streams the answer into the thread.
+   * An action with parameters first asks for their values.
+   */
+  private async runActionCommand(input: string, action: CopilotAction, extraInstructions: string): Promise<void> {
+    const currentThread = this.getCurrentThread();
+    if (!currentThread || !this.messagesContainer) return;
+
+    const parameterNames = (action.parameters ?? []).map((p) => p.name);
+    const templateErrors = [
+      ...validateTemplate(action.system, parameterNames),
+      ...validateTemplate(action.prompt, parameterNames),
+    ];
+    if (templateErrors.length > 0) {
+      new Notice(`Invalid action template: ${action.name} - ${templateErrors.join('; ')}`, 8000);
+      return;
+    }
+
+    const selectionContext = this.pendingSelectionContext;
+    this.clearSelectionContext();
+
+    this.plugin.askActionParameters(action, (parameterValues) => {
+      void this.sendActionCommand(currentThread, input, action, extraInstructions, selectionContext, parameterValues);
+    });
+  }
+
+  private async sendActionCommand(
+    currentThread: ChatThread,
+    input: string,
+    action: CopilotAction,
+    extraInstructions: string,
+    selectionContext: SelectionContext | null,
+    parameterValues: Record<string, string>,
+  ): Promise<void> {
+    if (!this.messagesContainer || this.abortController) return;
+
+    const userMessage: ChatMessage = {
+      id: this.nextMessageId(),
+      role: 'user',
+      content: input,
+      timestamp: Date.now(),
+      selection: selectionContext ?? undefined,
+      parameters: Object.keys(parameterValues).length > 0 ? parameterValues : undefined,
+    };
+
+    appendMessage(currentThread, userMessage);
+    const userMessageEl = this.renderMessage(userMessage);
+    this.messagesContainer.appendChild(userMessageEl);
+    this.messageElements.set(userMessage.id, userMessageEl);
+
+    await this.streamAssistantReply(currentThread, userMessage, () =>
+      this.buildActionPrompt(action, extraInstructions, selectionContext, parameterValues),
+    );
+  }
+
+  private async buildActionPrompt(
+    action: CopilotAction,
+    extraInstructions: string,
+    selectionContext: SelectionContext | null,
+    parameterValues: Record<string, string>,
+  ): Promise<string> {
+    // Template variables refer to the note the selection came from, else the active note
+    const activeFile = this.app.workspace.getActiveFile();
+    const selectionFile = selectionContext?.sourcePath
+      ? this.app.vault.getAbstractFileByPath(selectionContext.sourcePath)
+      : null;
+    const sourceFile = selectionFile instanceof TFile ? selectionFile : activeFile;
+    const templates = await renderActionTemplates(this.app, action, {
+      selection: selectionContext?.text ?? '',
+      file: sourceFile,
+      cursorOffset: (sourceFile && this.getCursorOffset(sourceFile)) ?? 0,
+      parameters: parameterValues,
+    });
+
+    const sections = [templates.system, templates.prompt];
+    if (extraInstructions) {
+      sections.push(`Additional instructions: ${extraInstructions}`);
+    }
+
+    // The template places the selection, or appends it without {{selection}}
+    if (selectionContext) {
+      return sections.join('\n\n');
+    }
+
+    const usesNoteContent = /\{\{\s*note\.content\s*\}\}/.test(action.system + action.prompt);
+    if (activeFile && !usesNoteContent) {
+      const content = await this.app.vault.cachedRead(activeFile);
+      const budgeted = applyContextBudget(
+        [{
+          kind: 'document',
+          label: activeFile.basename,
+          header: `Text from "${activeFile.basename}":`,
+          text: content,
+          cursorOffset: this.getCursorOffset(activeFile),
+        }],
+        getContextBudget(this.getCurrentThread()?.model ?? ''),
+        this.settings.contextBudgetStrategy,
+      );
+      for (const part of budgeted.parts) {
+        sections.push(`${part.header}\n"""\n${part.text}\n"""`);
+      }
+    }
+
+    return sections.join('\n\n');
+  }
+
+  private nextMessageId(): string {
+    return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
   }
 
   private handleAbort(): void {
@@ -545,24 +1411,84 @@ export class CopilotChatView extends ItemView {
 
   private async buildPromptWithContext(
     userPrompt: string,
-    selectionContext?: { text: string; sourceFile: string } | null,
-  ): Promise<string> {
+    selectionContext?: SelectionContext | null,
+    mentions: NoteMention[] = [],
+    history: ChatMessage[] = [],
+  ): Promise<{ prompt: string; citations: ChatCitation[] }> {
     const currentThread = this.getCurrentThread();
-    if (!currentThread) return userPrompt;
+    if (!currentThread) return { prompt: userPrompt, citations: [] };
 
-    let finalPrompt = userPrompt;
-    const parts: string[] = [];
+    if (this.settings.vaultMode) {
+      await this.plugin.vaultIndex.ensureBuilt();
+    }
+
+    const parts = await this.collectContextParts(userPrompt, selectionContext, mentions, history, true);
+    const budgeted = applyContextBudget(
+      parts,
+      getContextBudget(currentThread.model),
+      this.settings.contextBudgetStrategy,
+    );
+
+    if (budgeted.trimmed.length > 0) {
+      new Notice(`Context trimmed to fit the model's budget: ${budgeted.trimmed.join(', ')}`);
+    }
+
+    const contextSections = budgeted.parts
+      .filter((p) => p.kind !== 'prompt' && p.kind !== 'history')
+      .map((p) => `${p.header}\n"""\n${p.text}\n"""`);
+    const citations = budgeted.parts.flatMap((p) => (p.citation ? [p.citation] : []));
+
+    if (citations.length > 0) {
+      contextSections.push(CITATION_INSTRUCTION);
+    }
+
+    // Build final prompt with context
+    if (contextSections.length > 0) {
+      return { prompt: `${contextSections.join('\n\n')}\n\nUser question: ${userPrompt}`, citations };
+    }
+
+    return { prompt: userPrompt, citations };
+  }
+
+  /**
+   * Gathers everything that will be sent with a message as budgetable parts:
+   * the active document, referenced selection, mentions, vault excerpts, prior
+   * conversation history (already held by the session) and the prompt itself.
+   * Mentions that can't be resolved are only reported with `reportProblems`,
+   * i.e. when sending, not for the estimate shown while typing.
+   */
+  private async collectContextParts(
+    userPrompt: string,
+    selectionContext: SelectionContext | null | undefined,
+    mentions: NoteMention[],
+    history: ChatMessage[],
+    reportProblems = false,
+  ): Promise<ContextPart[]> {
+    const currentThread = this.getCurrentThread();
+    const parts: ContextPart[] = [];
+    // Each context block gets a source number the reply can cite
+    let nextCitationId = 1;
 
     // Check if we should include full document context
+    const persona = currentThread ? getThreadPersona(this.settings, currentThread) : null;
     const shouldIncludeContext =
-      currentThread.contextFile || this.settings.autoIncludeContext;
+      currentThread?.contextFile ||
+      (persona ? personaIncludesContext(persona, this.settings.autoIncludeContext) : this.settings.autoIncludeContext);
 
+    const activeFile = this.app.workspace.getActiveFile();
     if (shouldIncludeContext) {
-      const activeFile = this.app.workspace.getActiveFile();
       if (activeFile) {
         try {
-          const content = await this.app.vault.read(activeFile);
-          parts.push(`Full document:\nFile: ${activeFile.basename}\nContent:\n"""\n${content}\n"""`);
+          const content = await this.app.vault.cachedRead(activeFile);
+          const citation: ChatCitation = { id: nextCitationId++, path: activeFile.path };
+          parts.push({
+            kind: 'document',
+            label: activeFile.basename,
+            header: getCitationHeader(citation, `full document "${activeFile.basename}" (${activeFile.path})`),
+            text: content,
+            cursorOffset: this.getCursorOffset(activeFile),
+            citation,
+          });
         } catch (error) {
           console.error('Error reading file for context:', error);
         }
@@ -571,15 +1497,88 @@ export class CopilotChatView extends ItemView {
 
     // Include referenced selection if present
     if (selectionContext) {
-      parts.push(`Referenced selection from "${selectionContext.sourceFile}":\n"""\n${selectionContext.text}\n"""`);
+      const citation: ChatCitation = {
+        id: nextCitationId++,
+        path: selectionContext.sourcePath ?? selectionContext.sourceFile,
+      };
+      parts.push({
+        kind: 'selection',
+        label: 'selection',
+        header: getCitationHeader(citation, `referenced selection from "${selectionContext.sourceFile}"`),
+        text: selectionContext.text,
+        citation,
+      });
     }
 
-    // Build final prompt with context
-    if (parts.length > 0) {
-      finalPrompt = `${parts.join('\n\n')}\n\nUser question: ${userPrompt}`;
+    // Include each @-mentioned note, heading or block as its own section
+    for (const mention of mentions) {
+      try {
+        const text = await resolveMention(this.app, mention);
+        if (text === null) {
+          if (reportProblems) new Notice(`Could not resolve ${getMentionLabel(mention)}`);
+          continue;
+        }
+        const citation: ChatCitation = {
+          id: nextCitationId++,
+          path: mention.path,
+          heading: mention.heading,
+          blockId: mention.blockId,
+        };
+        const description = `referenced ${mention.kind === 'file' ? 'note' : mention.kind} "${getMentionLabel(mention)}" (${mention.path})`;
+        parts.push({
+          kind: 'mention',
+          label: getMentionLabel(mention),
+          header: getCitationHeader(citation, description),
+          text,
+          citation,
+        });
+      } catch (error) {
+        console.error('Error reading mention for context:', error);
+      }
     }
 
-    return finalPrompt;
+    // In vault mode, include the best-matching note sections
+    if (this.settings.vaultMode) {
+      const excludePaths = shouldIncludeContext && activeFile ? [activeFile.path] : [];
+      const chunks = await this.plugin.vaultIndex.search(
+        userPrompt,
+        this.plugin.settings.vaultSearchResults,
+        excludePaths,
+      );
+      for (const chunk of chunks) {
+        const citation: ChatCitation = { id: nextCitationId++, path: chunk.path, heading: chunk.heading || undefined };
+        const label = getCitationLabel(citation);
+        parts.push({
+          kind: 'vault',
+          label,
+          header: getCitationHeader(citation, `vault excerpt "${label}" (${chunk.path})`),
+          text: chunk.text,
+          citation,
+        });
+      }
+    }
+
+    if (history.length > 0) {
+      parts.push({
+        kind: 'history',
+        label: 'conversation history',
+        header: '',
+        text: history.map((m) => m.content).join('\n\n'),
+      });
+    }
+
+    parts.push({ kind: 'prompt', label: 'prompt', header: '', text: userPrompt });
+
+    return parts;
+  }
+
+  private getCursorOffset(file: TFile): number | undefined {
+    const leaf = this.app.workspace
+      .getLeavesOfType('markdown')
+      .find((l) => l.view instanceof MarkdownView && l.view.file === file);
+    if (!leaf) return undefined;
+    const editor = (leaf.view as MarkdownView).editor;
+    return editor.posToOffset(editor.getCursor());
   }
 
   private scrollToBottom(): void {
@@ -588,11 +1587,12 @@ export class CopilotChatView extends ItemView {
     }
   }
 
-  public setContextAndFocus(selectedText: string, sourceFile: string): void {
+  public setContextAndFocus(selectedText: string, sourceFile: string, sourcePath?: string): void {
     if (!this.inputElement || !this.selectionContextChip) return;
 
-    this.pendingSelectionContext = { text: selectedText, sourceFile };
+    this.pendingSelectionContext = { text: selectedText, sourceFile, sourcePath };
     this.showSelectionContextChip();
+    this.requestTokenEstimate();
     this.inputElement.focus();
   }
 
@@ -621,10 +1621,68 @@ export class CopilotChatView extends ItemView {
     }
   }
 
+  private handleMentionTrigger(): void {
+    if (!this.inputElement) return;
+
+    // Only trigger at the start of a word, so e-mail addresses don't open the picker
+    const atIndex = this.inputElement.selectionStart - 1;
+    const before = this.inputElement.value.charAt(atIndex - 1);
+    if (atIndex > 0 && before && !/\s/.test(before)) return;
+
+    new MentionSuggestModal(this.app, (mention) => {
+      if (!this.inputElement) return;
+      // Remove the "@" that opened the picker
+      const value = this.inputElement.value;
+      if (value.charAt(atIndex) === '@') {
+        this.inputElement.value = value.slice(0, atIndex) + value.slice(atIndex + 1);
+        this.inputElement.setSelectionRange(atIndex, atIndex);
+      }
+      this.addMention(mention);
+      this.inputElement.focus();
+    }).open();
+  }
+
+  private addMention(mention: NoteMention): void {
+    if (this.pendingMentions.some((m) => isSameMention(m, mention))) return;
+    this.pendingMentions.push(mention);
+    this.renderMentionChips();
+    this.requestTokenEstimate();
+  }
+
+  private removeMention(mention: NoteMention): void {
+    this.pendingMentions = this.pendingMentions.filter((m) => !isSameMention(m, mention));
+    this.renderMentionChips();
+    this.requestTokenEstimate();
+  }
+
+  private renderMentionChips(): void {
+    if (!this.mentionChipsContainer) return;
+
+    this.mentionChipsContainer.empty();
+    this.mentionChipsContainer.style.display = this.pendingMentions.length > 0 ? 'flex' : 'none';
+
+    for (const mention of this.pendingMentions) {
+      const chip = this.mentionChipsContainer.createDiv({ cls: 'copilot-chat-mention-chip' });
+      chip.setAttr('aria-label', mention.path);
+      chip.createSpan({ cls: 'copilot-chat-mention-label', text: `@${getMentionLabel(mention)}` });
+
+      const dismissBtn = chip.createSpan({ cls: 'copilot-chat-selection-dismiss' });
+      dismissBtn.setText('\u00D7');
+      dismissBtn.addEventListener('click', () => this.removeMention(mention));
+    }
+  }
+
+  private clearMentions(): void {
+    this.pendingMentions = [];
+    this.renderMentionChips();
+  }
+
   async loadSettings(): Promise<void> {
     const data = await this.plugin.loadData();
     if (data?.chatSettings) {
-      this.settings = { ...DEFAULT_CHAT_SETTINGS, ...data.chatSettings };
+      // Cloned so editing personas or threads never changes the built-in defaults
+      this.settings = { ...structuredClone(DEFAULT_CHAT_SETTINGS), ...data.chatSettings };
+      this.settings.threads.forEach(ensureMessageTree);
     }
   }
 
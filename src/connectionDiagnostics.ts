@@ -0,0 +1,107 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { CopilotDiagnostics, CopilotProvider, CopilotStatus } from './modelProvider';
+
+export const COPILOT_STATUS_LABELS: Record<CopilotStatus, string> = {
+  disconnected: 'Off',
+  connecting: 'Connecting...',
+  ready: 'Ready',
+  'auth-needed': 'Sign-in needed',
+  error: 'Error',
+};
+
+function formatDiagnostics(diagnostics: CopilotDiagnostics): string {
+  return [
+    `Status: ${COPILOT_STATUS_LABELS[diagnostics.status]}`,
+    `CLI path: ${diagnostics.cliPath ?? 'not found'}`,
+    `CLI version: ${diagnostics.version ?? 'unknown'}`,
+    `Signed in as: ${diagnostics.login ?? 'unknown'}`,
+    `Last error: ${diagnostics.lastError ?? 'none'}`,
+    `Platform: ${process.platform}`,
+    '',
+    'Steps:',
+    ...diagnostics.steps.map((step, i) => `${i + 1}. ${step}`),
+  ].join('\n');
+}
+
+// ── Connection Diagnostics Modal ───────────────────────────────────────────────
+
+/**
+ * Shows how the last connection to the Copilot CLI went: where the CLI was
+ * looked for, its version, sign-in and the last error, with a reconnect button.
+ */
+export class ConnectionDiagnosticsModal extends Modal {
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    app: App,
+    private provider: CopilotProvider,
+    private onReconnect: () => Promise<void>,
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.titleEl.setText('Copilot connection');
+    this.unsubscribe = this.provider.onStatusChange(() => this.render());
+    this.render();
+  }
+
+  onClose(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.contentEl.empty();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('copilot-diagnostics');
+
+    const diagnostics = this.provider.getDiagnostics();
+    const rows: [string, string][] = [
+      ['Status', COPILOT_STATUS_LABELS[diagnostics.status]],
+      ['CLI path', diagnostics.cliPath ?? 'Not found'],
+      ['CLI version', diagnostics.version ?? 'Unknown'],
+      ['Signed in as', diagnostics.login ?? 'Unknown'],
+    ];
+    const tableEl = contentEl.createDiv({ cls: 'copilot-diagnostics-table' });
+    for (const [label, value] of rows) {
+      tableEl.createDiv({ cls: 'copilot-diagnostics-label', text: label });
+      tableEl.createDiv({ cls: 'copilot-diagnostics-value', text: value });
+    }
+
+    if (diagnostics.lastError) {
+      contentEl.createDiv({ cls: 'copilot-diagnostics-error', text: diagnostics.lastError });
+    }
+    if (diagnostics.status === 'auth-needed') {
+      contentEl.createDiv({
+        cls: 'copilot-diagnostics-hint',
+        text: 'Run `copilot login` in a terminal, then reconnect.',
+      });
+    }
+
+    contentEl.createDiv({ cls: 'copilot-diagnostics-heading', text: 'Detection steps' });
+    if (diagnostics.steps.length === 0) {
+      contentEl.createDiv({ cls: 'copilot-diagnostics-hint', text: 'Not connected yet' });
+    } else {
+      const stepsEl = contentEl.createEl('ol', { cls: 'copilot-diagnostics-steps' });
+      for (const step of diagnostics.steps) stepsEl.createEl('li', { text: step });
+    }
+
+    new Setting(contentEl)
+      .addButton((btn) =>
+        btn.setButtonText('Copy diagnostics').onClick(() => {
+          void navigator.clipboard.writeText(formatDiagnostics(this.provider.getDiagnostics())).then(() => {
+            new Notice('Diagnostics copied to clipboard');
+          });
+        })
+      )
+      .addButton((btn) =>
+        btn
+          .setButtonText('Reconnect')
+          .setCta()
+          .setDisabled(diagnostics.status === 'connecting')
+          .onClick(() => void this.onReconnect())
+      );
+  }
+}
@@ -0,0 +1,250 @@
+import type { ChatCitation } from './chatTypes';
+
+// ── Context Budget ─────────────────────────────────────────────────────────────
+
+export type ContextBudgetStrategy = 'head-tail' | 'headings' | 'skip';
+
+export const CONTEXT_BUDGET_STRATEGIES: { value: ContextBudgetStrategy; label: string }[] = [
+  { value: 'head-tail', label: 'Keep beginning and end' },
+  { value: 'headings', label: 'Keep sections nearest the cursor' },
+  { value: 'skip', label: 'Skip content that does not fit' },
+];
+
+export type ContextPartKind = 'document' | 'selection' | 'mention' | 'vault' | 'history' | 'prompt';
+
+export interface ContextPart {
+  kind: ContextPartKind;
+  label: string;
+  header: string; // Heading placed above the quoted text in the prompt
+  text: string;
+  cursorOffset?: number; // Cursor position within `text`, used by the headings strategy
+  citation?: ChatCitation; // Source the reply can cite for this part
+}
+
+export interface BudgetedContext {
+  parts: ContextPart[];
+  estimatedTokens: number;
+  budget: number;
+  trimmed: string[]; // Labels of parts that were truncated or skipped
+  overBudget: boolean; // True if the non-truncatable parts alone exceed the budget
+}
+
+const CHARS_PER_TOKEN = 4;
+
+// Share of the model's context window available for the prompt; the rest is
+// left for the response.
+const CONTEXT_WINDOW_USAGE = 0.75;
+
+// Parts that would shrink below this are dropped instead of truncated.
+const MIN_PART_TOKENS = 64;
+
+const DEFAULT_CONTEXT_WINDOW = 128000;
+
+const MODEL_CONTEXT_WINDOWS: [RegExp, number][] = [
+  [/^gpt-3\.5/, 16000],
+  [/^gpt-4$/, 8000],
+  [/^gpt-4o-mini/, 128000],
+  [/^o\d/, 200000],
+  [/^gemini/, 128000],
+];
+
+/**
+ * Rough token estimate (~4 characters per token). Good enough for budgeting
+ * without shipping a tokenizer for every model.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Context windows reported by the model providers, see modelRegistry.ts
+let contextWindowLookup: ((modelId: string) => number | undefined) | null = null;
+
+export function setContextWindowLookup(lookup: ((modelId: string) => number | undefined) | null): void {
+  contextWindowLookup = lookup;
+}
+
+export function getModelContextWindow(modelId: string): number {
+  const reported = contextWindowLookup?.(modelId);
+  if (reported) return reported;
+  const match = MODEL_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(modelId));
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+export function getContextBudget(modelId: string): number {
+  return Math.floor(getModelContextWindow(modelId) * CONTEXT_WINDOW_USAGE);
+}
+
+export function formatTokenCount(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  return (tokens / 1000).toFixed(tokens < 10000 ? 1 : 0) + 'k';
+}
+
+function isTruncatable(part: ContextPart): boolean {
+  return part.kind === 'document' || part.kind === 'mention' || part.kind === 'vault';
+}
+
+/**
+ * Fits the context parts into the token budget. The prompt, referenced
+ * selection and conversation history are always kept; mentions are fitted
+ * next (in the order they were added), then vault excerpts (best match first)
+ * and the implicit document last.
+ */
+export function applyContextBudget(
+  parts: ContextPart[],
+  budget: number,
+  strategy: ContextBudgetStrategy,
+): BudgetedContext {
+  const fixedTokens = parts
+    .filter((p) => !isTruncatable(p))
+    .reduce((sum, p) => sum + estimateTokens(p.header) + estimateTokens(p.text), 0);
+
+  let remaining = budget - fixedTokens;
+  const trimmed: string[] = [];
+  const fitted = new Map<ContextPart, ContextPart | null>();
+
+  const priority = [
+    ...parts.filter((p) => p.kind === 'mention'),
+    ...parts.filter((p) => p.kind === 'vault'),
+    ...parts.filter((p) => p.kind === 'document'),
+  ];
+
+  for (const part of priority) {
+    const tokens = estimateTokens(part.header) + estimateTokens(part.text);
+    if (tokens <= remaining) {
+      fitted.set(part, part);
+      remaining -= tokens;
+      continue;
+    }
+
+    const available = remaining - estimateTokens(part.header);
+    const text = available >= MIN_PART_TOKENS ? truncateText(part, available, strategy) : null;
+    trimmed.push(part.label);
+    if (text === null) {
+      fitted.set(part, null);
+      continue;
+    }
+    fitted.set(part, { ...part, text });
+    remaining -= estimateTokens(part.header) + estimateTokens(text);
+  }
+
+  const result: ContextPart[] = [];
+  for (const part of parts) {
+    if (!isTruncatable(part)) {
+      result.push(part);
+      continue;
+    }
+    const kept = fitted.get(part);
+    if (kept) result.push(kept);
+  }
+
+  const estimatedTokens = result.reduce(
+    (sum, p) => sum + estimateTokens(p.header) + estimateTokens(p.text),
+    0,
+  );
+
+  return {
+    parts: result,
+    estimatedTokens,
+    budget,
+    trimmed,
+    overBudget: fixedTokens > budget,
+  };
+}
+
+// ── Truncation Strategies ──────────────────────────────────────────────────────
+
+function omissionMarker(omittedChars: number): string {
+  return `\n\n[… ${formatTokenCount(Math.ceil(omittedChars / CHARS_PER_TOKEN))} tokens omitted …]\n\n`;
+}
+
+function truncateText(
+  part: ContextPart,
+  maxTokens: number,
+  strategy: ContextBudgetStrategy,
+): string | null {
+  switch (strategy) {
+    case 'skip':
+      return null;
+    case 'headings':
+      return truncateByHeadings(part.text, maxTokens, part.cursorOffset ?? 0);
+    case 'head-tail':
+    default:
+      return truncateHeadTail(part.text, maxTokens);
+  }
+}
+
+/**
+ * Keeps the first two thirds of the budget from the start of the text and the
+ * last third from the end.
+ */
+function truncateHeadTail(text: string, maxTokens: number): string {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) return text;
+
+  const markerChars = 40;
+  const usable = Math.max(0, maxChars - markerChars);
+  const headChars = Math.floor((usable * 2) / 3);
+  const tailChars = usable - headChars;
+  const omitted = text.length - headChars - tailChars;
+
+  return text.slice(0, headChars) + omissionMarker(omitted) + text.slice(text.length - tailChars);
+}
+
+interface Section {
+  from: number;
+  to: number;
+}
+
+function splitIntoSections(text: string): Section[] {
+  const starts = [0];
+  const headingPattern = /^#{1,6}\s/gm;
+  let match: RegExpExecArray | null;
+  while ((match = headingPattern.exec(text)) !== null) {
+    if (match.index > 0) starts.push(match.index);
+  }
+  return starts.map((from, i) => ({ from, to: i + 1 < starts.length ? starts[i + 1] : text.length }));
+}
+
+/**
+ * Keeps the section containing the cursor, then grows outwards one section at
+ * a time (alternating before/after) while the budget allows.
+ */
+function truncateByHeadings(text: string, maxTokens: number, cursorOffset: number): string {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) return text;
+
+  const sections = splitIntoSections(text);
+  let index = sections.findIndex((s) => cursorOffset >= s.from && cursorOffset < s.to);
+  if (index === -1) index = sections.length - 1;
+
+  const length = (s: Section) => s.to - s.from;
+  if (length(sections[index]) > maxChars) {
+    return truncateHeadTail(text.slice(sections[index].from, sections[index].to), maxTokens);
+  }
+
+  let first = index;
+  let last = index;
+  let used = length(sections[index]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    if (first > 0 && used + length(sections[first - 1]) <= maxChars) {
+      first -= 1;
+      used += length(sections[first]);
+      grew = true;
+    }
+    if (last < sections.length - 1 && used + length(sections[last + 1]) <= maxChars) {
+      last += 1;
+      used += length(sections[last]);
+      grew = true;
+    }
+  }
+
+  const from = sections[first].from;
+  const to = sections[last].to;
+  return (
+    (from > 0 ? omissionMarker(from).trimStart() : '') +
+    text.slice(from, to) +
+    (to < text.length ? omissionMarker(text.length - to).trimEnd() : '')
+  );
+}
@@ -0,0 +1,249 @@
+import { Prec, StateEffect } from "@codemirror/state";
+import {
+  Decoration,
+  DecorationSet,
+  EditorView,
+  keymap,
+  PluginValue,
+  ViewPlugin,
+  ViewUpdate,
+  WidgetType,
+} from "@codemirror/view";
+import { editorInfoField } from "obsidian";
+
+// ── Completion Provider ────────────────────────────────────────────────────────
+
+export interface GhostTextRequest {
+  filePath: string;
+  title: string; // Note title (file basename)
+  before: string; // Paragraph text before the cursor
+  after: string; // Paragraph text after the cursor
+}
+
+export interface GhostTextProvider {
+  /** Resolves to the text to insert at the cursor, or null for no suggestion. */
+  complete(request: GhostTextRequest, signal: AbortSignal): Promise<string | null>;
+  /** Whether suggestions are shown for a note, checked before each request. */
+  isEnabledFor(filePath: string): boolean;
+  /** Typing pause, in milliseconds, before a suggestion is requested. */
+  getDelay(): number;
+}
+
+let provider: GhostTextProvider | null = null;
+
+export function setGhostTextProvider(value: GhostTextProvider | null): void {
+  provider = value;
+}
+
+// Context sent with a request, counted back from the cursor
+const MAX_CONTEXT_CHARS = 2000;
+
+// ── Ghost Text Widget ──────────────────────────────────────────────────────────
+
+class GhostTextWidget extends WidgetType {
+  constructor(private text: string) {
+    super();
+  }
+
+  eq(other: GhostTextWidget) {
+    return other.text === this.text;
+  }
+
+  toDOM(): HTMLElement {
+    const span = document.createElement("span");
+    span.addClass("copilot-ghost-text");
+    span.textContent = this.text;
+    return span;
+  }
+
+  ignoreEvent(): boolean {
+    return false;
+  }
+}
+
+// ── Ghost Text Plugin (CM6 ViewPlugin) ─────────────────────────────────────────
+
+interface Suggestion {
+  position: number;
+  text: string;
+}
+
+// Sets (or with null, clears) the suggestion shown at the cursor
+const setSuggestionEffect = StateEffect.define<Suggestion | null>();
+
+export class GhostTextPlugin implements PluginValue {
+  decorations: DecorationSet = Decoration.none;
+  private suggestion: Suggestion | null = null;
+  private timer: number | null = null;
+  private abortController: AbortController | null = null;
+
+  constructor(private editorView: EditorView) {}
+
+  update(update: ViewUpdate) {
+    for (const tr of update.transactions) {
+      for (const effect of tr.effects) {
+        if (effect.is(setSuggestionEffect)) {
+          this.suggestion = effect.value;
+          this.updateDecorations();
+          return;
+        }
+      }
+    }
+
+    if (!update.docChanged && !update.selectionSet) return;
+
+    // Any other edit or cursor move dismisses the suggestion and any request in flight
+    this.cancel();
+    if (this.suggestion) {
+      this.suggestion = null;
+      this.updateDecorations();
+    }
+
+    const typed = update.transactions.some((tr) => tr.isUserEvent("input.type"));
+    if (typed) this.schedule();
+  }
+
+  destroy() {
+    this.cancel();
+  }
+
+  /**
+   * Inserts the whole suggestion, or only its next word, leaving the rest
+   * shown after the cursor. Returns false if there is nothing to accept.
+   */
+  accept(wordOnly: boolean): boolean {
+    const suggestion = this.suggestion;
+    if (!suggestion) return false;
+
+    const insert = wordOnly
+      ? (suggestion.text.match(/^\s*\S+/)?.[0] ?? suggestion.text)
+      : suggestion.text;
+    const rest = suggestion.text.slice(insert.length);
+    const position = suggestion.position + insert.length;
+
+    this.editorView.dispatch({
+      changes: { from: suggestion.position, insert },
+      selection: { anchor: position },
+      effects: setSuggestionEffect.of(rest ? { position, text: rest } : null),
+      userEvent: "input.complete",
+    });
+    return true;
+  }
+
+  dismiss(): boolean {
+    this.cancel();
+    if (!this.suggestion) return false;
+    this.editorView.dispatch({ effects: setSuggestionEffect.of(null) });
+    return true;
+  }
+
+  private cancel() {
+    if (this.timer !== null) {
+      window.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.abortController?.abort();
+    this.abortController = null;
+  }
+
+  private schedule() {
+    if (!provider) return;
+    const delay = provider.getDelay();
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      void this.request();
+    }, delay);
+  }
+
+  private async request() {
+    const state = this.editorView.state;
+    const selection = state.selection.main;
+    if (!provider || !selection.empty || !this.editorView.hasFocus) return;
+
+    // Only complete at the end of a line, where ghost text can't hide existing text
+    const line = state.doc.lineAt(selection.head);
+    if (line.text.slice(selection.head - line.from).trim()) return;
+
+    const file = state.field(editorInfoField, false)?.file;
+    if (!file || !provider.isEnabledFor(file.path)) return;
+
+    const { from, to } = this.getParagraphRange(selection.head);
+    const request: GhostTextRequest = {
+      filePath: file.path,
+      title: file.basename,
+      before: state.doc.sliceString(Math.max(from, selection.head - MAX_CONTEXT_CHARS), selection.head),
+      after: state.doc.sliceString(selection.head, to),
+    };
+    if (!request.before.trim()) return;
+
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    let text: string | null = null;
+    try {
+      text = await provider.complete(request, abortController.signal);
+    } catch (error) {
+      if (!abortController.signal.aborted) {
+        console.error("Ghost text completion failed:", error);
+      }
+    }
+
+    // A newer edit has made this request stale
+    if (abortController.signal.aborted) return;
+    this.abortController = null;
+    if (!text || this.editorView.state.selection.main.head !== selection.head) return;
+
+    this.editorView.dispatch({
+      effects: setSuggestionEffect.of({ position: selection.head, text }),
+    });
+  }
+
+  /**
+   * The paragraph around a position: the lines between the nearest blank
+   * lines before and after it.
+   */
+  private getParagraphRange(position: number): { from: number; to: number } {
+    const doc = this.editorView.state.doc;
+    let first = doc.lineAt(position).number;
+    let last = first;
+    while (first > 1 && doc.line(first - 1).text.trim()) first--;
+    while (last < doc.lines && doc.line(last + 1).text.trim()) last++;
+    return { from: doc.line(first).from, to: doc.line(last).to };
+  }
+
+  private updateDecorations() {
+    const suggestion = this.suggestion;
+    this.decorations = suggestion
+      ? Decoration.set([
+        Decoration.widget({
+          widget: new GhostTextWidget(suggestion.text),
+          side: 1,
+        }).range(suggestion.position),
+      ])
+      : Decoration.none;
+  }
+}
+
+export const ghostTextPlugin = ViewPlugin.fromClass(GhostTextPlugin, {
+  decorations: (v) => v.decorations,
+});
+
+// Tab and Escape only act while a suggestion is shown, so they keep their
+// usual behaviour otherwise
+const ghostTextKeymap = Prec.highest(
+  keymap.of([
+    {
+      key: "Tab",
+      run: (view) => view.plugin(ghostTextPlugin)?.accept(false) ?? false,
+    },
+    {
+      key: "Ctrl-ArrowRight",
+      run: (view) => view.plugin(ghostTextPlugin)?.accept(true) ?? false,
+    },
+    {
+      key: "Escape",
+      run: (view) => view.plugin(ghostTextPlugin)?.dismiss() ?? false,
+    },
+  ]),
+);
+
+export const ghostTextExtension = [ghostTextPlugin, ghostTextKeymap];
@@ -1,170 +1,659 @@
-import { StateEffect, StateField, RangeSetBuilder } from '@codemirror/state';
+import { StateEffect, StateField, Range } from '@codemirror/state';
 import {
   Decoration,
   DecorationSet,
   EditorView,
   WidgetType,
 } from '@codemirror/view';
+import { computeDiff } from './textDiff';
 
 // ── State Effects ─────────────────────────────────────────────────────────────
 
-interface DiffState {
-  from: number;
+export type HunkStatus = 'accepted' | 'rejected';
+
+export interface ReviewHunk {
+  from: number; // Document offsets of the text the hunk replaces
   to: number;
-  newText: string;
+  insert: string;
+  status: HunkStatus;
+}
+
+interface ReviewState {
+  id: string;
+  start: number; // Document range under review; the toolbar is shown after `end`
+  end: number;
+  hunks: ReviewHunk[];
+  versions: string[]; // Proposed texts, oldest first; refining adds a version
+  versionIndex: number; // Version the hunks were computed from
+  canRefine: boolean;
+  refining: boolean;
+}
+
+// Review state shared by every editor, passed in so decorations stay pure
+interface ReviewDisplay {
+  focusedId: string | null;
+  total: number; // Pending reviews across all editors
 }
 
-const showDiffEffect = StateEffect.define<DiffState>();
-const clearDiffEffect = StateEffect.define<void>();
+const showDiffEffect = StateEffect.define<ReviewState>();
+const setHunkStatusEffect = StateEffect.define<{ reviewId: string; index: number; status: HunkStatus }>();
+const replaceReviewEffect = StateEffect.define<ReviewState>();
+const clearDiffEffect = StateEffect.define<string>();
+const refreshDisplayEffect = StateEffect.define<ReviewDisplay>();
 
-// ── Module-level callbacks for the active diff review ─────────────────────────
+// ── Review Registry ───────────────────────────────────────────────────────────
+//
+// Each pending review has an id and belongs to one EditorView. Widgets look up
+// their review's controller by id, so several reviews can be open at once in
+// one editor or across split panes without sharing callbacks.
+
+/**
+ * Asks for a revised version of the proposal; resolves to the new text, or
+ * null if the request failed.
+ */
+export type RefineHandler = (instruction: string) => Promise<string | null>;
+
+interface ReviewController {
+  id: string;
+  view: EditorView;
+  resolve: (apply: boolean) => void;
+  refine?: RefineHandler;
+}
 
-let activeDiffCallbacks: {
-  onKeep: () => void;
-  onUndo: () => void;
-  keydownHandler: (e: KeyboardEvent) => void;
-} | null = null;
+// Versions kept per review when refining
+const MAX_VERSIONS = 8;
+
+const reviews = new Map<string, ReviewController>();
+const refineDrafts = new Map<string, string>(); // Unsent refinement text, kept across re-renders
+let focusedReviewId: string | null = null;
+let nextReviewId = 1;
+let revealEditor: ((view: EditorView) => void) | null = null;
+
+/**
+ * Sets how to bring an editor into view (e.g. activate its leaf) before
+ * jumping to a review in it.
+ */
+export function setDiffReviewRevealHandler(handler: (view: EditorView) => void): void {
+  revealEditor = handler;
+}
+
+function getReviewState(id: string): ReviewState | null {
+  const controller = reviews.get(id);
+  if (!controller) return null;
+  return controller.view.state.field(inlineDiffField).reviews.find((r) => r.id === id) ?? null;
+}
+
+/**
+ * Updates focus highlighting and navigation buttons in every editor with a
+ * pending review.
+ */
+function refreshAllViews(): void {
+  const display: ReviewDisplay = { focusedId: focusedReviewId, total: reviews.size };
+  const views = new Set([...reviews.values()].map((c) => c.view));
+  for (const view of views) {
+    view.dispatch({ effects: refreshDisplayEffect.of(display) });
+  }
+}
 
-// ── Diff Review Widget (new text + toolbar buttons) ───────────────────────────
+// ── Hunk Widget (inserted text + accept/reject buttons) ───────────────────────
 
-class DiffReviewWidget extends WidgetType {
-  constructor(private text: string) {
+class HunkWidget extends WidgetType {
+  constructor(
+    private reviewId: string,
+    private index: number,
+    private text: string,
+    private status: HunkStatus,
+  ) {
     super();
   }
 
-  eq(other: DiffReviewWidget): boolean {
-    return other.text === this.text;
+  eq(other: HunkWidget): boolean {
+    return (
+      other.reviewId === this.reviewId &&
+      other.index === this.index &&
+      other.text === this.text &&
+      other.status === this.status
+    );
   }
 
   toDOM(): HTMLElement {
-    const wrapper = document.createElement('div');
-    wrapper.className = 'copilot-diff-review';
+    const wrapper = document.createElement('span');
+    wrapper.className = `copilot-diff-hunk is-${this.status}`;
+
+    if (this.text) {
+      const textEl = document.createElement('span');
+      textEl.className = 'copilot-diff-inserted';
+      textEl.textContent = this.text;
+      wrapper.appendChild(textEl);
+    }
+
+    const acceptBtn = document.createElement('button');
+    acceptBtn.className = 'copilot-diff-hunk-btn copilot-diff-hunk-accept';
+    acceptBtn.textContent = '✓';
+    acceptBtn.setAttribute('aria-label', 'Accept change');
+    acceptBtn.addEventListener('click', () => setHunkStatus(this.reviewId, this.index, 'accepted'));
+
+    const rejectBtn = document.createElement('button');
+    rejectBtn.className = 'copilot-diff-hunk-btn copilot-diff-hunk-reject';
+    rejectBtn.textContent = '✕';
+    rejectBtn.setAttribute('aria-label', 'Reject change');
+    rejectBtn.addEventListener('click', () => setHunkStatus(this.reviewId, this.index, 'rejected'));
 
-    // New text block
-    const textEl = document.createElement('div');
-    textEl.className = 'copilot-diff-new-text';
-    textEl.textContent = this.text;
+    wrapper.appendChild(acceptBtn);
+    wrapper.appendChild(rejectBtn);
+    return wrapper;
+  }
+
+  ignoreEvent(): boolean {
+    return true;
+  }
+}
+
+// ── Review Toolbar Widget ─────────────────────────────────────────────────────
+
+interface ToolbarProps {
+  reviewId: string;
+  accepted: number;
+  total: number;
+  focused: boolean;
+  showNavigation: boolean;
+  canRefine: boolean;
+  refining: boolean;
+  versionIndex: number;
+  versionCount: number;
+}
+
+class DiffToolbarWidget extends WidgetType {
+  constructor(private props: ToolbarProps) {
+    super();
+  }
+
+  // Everything except focus; focus changes only toggle a class, so the
+  // buttons survive a mousedown that focuses the review before their click
+  private get layoutKey(): string {
+    const { focused: _focused, ...layout } = this.props;
+    return JSON.stringify(layout);
+  }
+
+  eq(other: DiffToolbarWidget): boolean {
+    return other.layoutKey === this.layoutKey && other.props.focused === this.props.focused;
+  }
+
+  updateDOM(dom: HTMLElement): boolean {
+    if (dom.dataset.layout !== this.layoutKey) return false;
+    dom.classList.toggle('is-focused', this.props.focused);
+    return true;
+  }
+
+  toDOM(): HTMLElement {
+    const { reviewId, accepted, total } = this.props;
+    const wrapper = document.createElement('div');
+    wrapper.dataset.layout = this.layoutKey;
+    wrapper.className = 'copilot-diff-toolbar copilot-diff-review';
+    if (this.props.focused) wrapper.classList.add('is-focused');
 
-    // Toolbar row
     const toolbar = document.createElement('div');
-    toolbar.className = 'copilot-diff-toolbar';
+    toolbar.className = 'copilot-diff-toolbar-row';
+    wrapper.appendChild(toolbar);
 
     const keepBtn = document.createElement('button');
     keepBtn.className = 'copilot-diff-toolbar-btn copilot-diff-keep';
-    keepBtn.innerHTML = 'Keep <span class="copilot-diff-shortcut">Tab</span>';
-    keepBtn.addEventListener('click', () => activeDiffCallbacks?.onKeep());
+    const keepLabel = accepted === total ? 'Keep all' : `Keep ${accepted} of ${total}`;
+    keepBtn.innerHTML = `${keepLabel} <span class="copilot-diff-shortcut">Tab</span>`;
+    keepBtn.addEventListener('click', () => resolveReview(reviewId, true));
 
     const undoBtn = document.createElement('button');
     undoBtn.className = 'copilot-diff-toolbar-btn copilot-diff-undo';
     undoBtn.innerHTML = 'Undo <span class="copilot-diff-shortcut">Esc</span>';
-    undoBtn.addEventListener('click', () => activeDiffCallbacks?.onUndo());
+    undoBtn.addEventListener('click', () => resolveReview(reviewId, false));
 
     toolbar.appendChild(keepBtn);
     toolbar.appendChild(undoBtn);
 
-    wrapper.appendChild(textEl);
-    wrapper.appendChild(toolbar);
+    // Flip between refined versions
+    if (this.props.versionCount > 1) {
+      const versionsEl = document.createElement('span');
+      versionsEl.className = 'copilot-diff-versions';
+
+      const previousBtn = document.createElement('button');
+      previousBtn.className = 'copilot-diff-toolbar-btn copilot-diff-nav';
+      previousBtn.textContent = '‹';
+      previousBtn.setAttribute('aria-label', 'Previous version');
+      previousBtn.disabled = this.props.versionIndex === 0 || this.props.refining;
+      previousBtn.addEventListener('click', () => showVersion(reviewId, this.props.versionIndex - 1));
+
+      const labelEl = document.createElement('span');
+      labelEl.className = 'copilot-diff-version-label';
+      labelEl.textContent = `Version ${this.props.versionIndex + 1} of ${this.props.versionCount}`;
+
+      const nextBtn = document.createElement('button');
+      nextBtn.className = 'copilot-diff-toolbar-btn copilot-diff-nav';
+      nextBtn.textContent = '›';
+      nextBtn.setAttribute('aria-label', 'Next version');
+      nextBtn.disabled = this.props.versionIndex === this.props.versionCount - 1 || this.props.refining;
+      nextBtn.addEventListener('click', () => showVersion(reviewId, this.props.versionIndex + 1));
+
+      versionsEl.appendChild(previousBtn);
+      versionsEl.appendChild(labelEl);
+      versionsEl.appendChild(nextBtn);
+      toolbar.appendChild(versionsEl);
+    }
+
+    // Jump between reviews when more than one is pending
+    if (this.props.showNavigation) {
+      const previousBtn = document.createElement('button');
+      previousBtn.className = 'copilot-diff-toolbar-btn copilot-diff-nav';
+      previousBtn.textContent = '↑';
+      previousBtn.setAttribute('aria-label', 'Previous pending review');
+      previousBtn.addEventListener('click', () => focusAdjacentReview(-1, reviewId));
+
+      const nextBtn = document.createElement('button');
+      nextBtn.className = 'copilot-diff-toolbar-btn copilot-diff-nav';
+      nextBtn.textContent = '↓';
+      nextBtn.setAttribute('aria-label', 'Next pending review');
+      nextBtn.addEventListener('click', () => focusAdjacentReview(1, reviewId));
+
+      toolbar.appendChild(previousBtn);
+      toolbar.appendChild(nextBtn);
+    }
+
+    // Follow-up instruction for the same session, e.g. "shorter"
+    if (this.props.canRefine) {
+      const refineEl = document.createElement('div');
+      refineEl.className = 'copilot-diff-refine';
+
+      const input = document.createElement('input');
+      input.type = 'text';
+      input.className = 'copilot-diff-refine-input';
+      input.placeholder = this.props.refining ? 'Refining...' : 'Refine, e.g. "shorter" or "keep the list format"';
+      input.disabled = this.props.refining;
+      input.value = refineDrafts.get(reviewId) ?? '';
+      input.addEventListener('input', () => refineDrafts.set(reviewId, input.value));
+
+      const refineBtn = document.createElement('button');
+      refineBtn.className = 'copilot-diff-toolbar-btn copilot-diff-refine-btn';
+      refineBtn.textContent = this.props.refining ? 'Refining...' : 'Refine';
+      refineBtn.disabled = this.props.refining;
+
+      const submit = () => {
+        const instruction = input.value.trim();
+        if (!instruction) return;
+        refineDrafts.delete(reviewId);
+        void refineReview(reviewId, instruction);
+      };
+      input.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          submit();
+        } else if (e.key === 'Escape') {
+          input.blur();
+        }
+      });
+      refineBtn.addEventListener('click', submit);
+
+      refineEl.appendChild(input);
+      refineEl.appendChild(refineBtn);
+      wrapper.appendChild(refineEl);
+    }
+
+    // Clicking a review's toolbar makes it the target of Tab/Escape
+    wrapper.addEventListener('mousedown', () => {
+      if (focusedReviewId !== reviewId) {
+        focusedReviewId = reviewId;
+        refreshAllViews();
+      }
+    });
     return wrapper;
   }
+
+  ignoreEvent(): boolean {
+    return true;
+  }
 }
 
 // ── StateField for Diff Decorations ───────────────────────────────────────────
 
-export const inlineDiffField = StateField.define<DecorationSet>({
+function buildDecorations(reviews: ReviewState[], display: ReviewDisplay): DecorationSet {
+  const ranges: Range<Decoration>[] = [];
+  for (const review of reviews) {
+    review.hunks.forEach((hunk, index) => {
+      if (hunk.from < hunk.to) {
+        ranges.push(
+          Decoration.mark({ class: `copilot-diff-old-text is-${hunk.status}` }).range(hunk.from, hunk.to),
+        );
+      }
+      ranges.push(
+        Decoration.widget({
+          widget: new HunkWidget(review.id, index, hunk.insert, hunk.status),
+          side: 1,
+        }).range(hunk.to),
+      );
+    });
+
+    ranges.push(
+      Decoration.widget({
+        widget: new DiffToolbarWidget({
+          reviewId: review.id,
+          accepted: review.hunks.filter((h) => h.status === 'accepted').length,
+          total: review.hunks.length,
+          focused: display.focusedId === review.id,
+          showNavigation: display.total > 1,
+          canRefine: review.canRefine,
+          refining: review.refining,
+          versionIndex: review.versionIndex,
+          versionCount: review.versions.length,
+        }),
+        side: 2,
+        block: true,
+      }).range(review.end),
+    );
+  }
+  return Decoration.set(ranges, true);
+}
+
+interface DiffFieldValue {
+  reviews: ReviewState[];
+  display: ReviewDisplay;
+  decorations: DecorationSet;
+}
+
+export const inlineDiffField = StateField.define<DiffFieldValue>({
   create() {
-    return Decoration.none;
+    return { reviews: [], display: { focusedId: null, total: 0 }, decorations: Decoration.none };
   },
   update(value, tr) {
-    value = value.map(tr.changes);
+    let { reviews, display } = value;
+    let decorations = value.decorations.map(tr.changes);
+    let changed = false;
+
+    if (reviews.length > 0 && tr.docChanged) {
+      reviews = reviews.map((review) => ({
+        ...review,
+        start: tr.changes.mapPos(review.start, 1),
+        end: tr.changes.mapPos(review.end, 1),
+        hunks: review.hunks.map((h) => {
+          const hunkFrom = tr.changes.mapPos(h.from, 1);
+          return { ...h, from: hunkFrom, to: Math.max(hunkFrom, tr.changes.mapPos(h.to, -1)) };
+        }),
+      }));
+    }
 
     for (const effect of tr.effects) {
       if (effect.is(showDiffEffect)) {
-        const { from, to, newText } = effect.value;
-        const builder = new RangeSetBuilder<Decoration>();
-        if (from < to) {
-          builder.add(
-            from,
-            to,
-            Decoration.mark({ class: 'copilot-diff-old-text' }),
-          );
-        }
-        builder.add(
-          to,
-          to,
-          Decoration.widget({
-            widget: new DiffReviewWidget(newText),
-            side: 1,
-            block: true,
-          }),
+        reviews = [...reviews, effect.value];
+        changed = true;
+      }
+      if (effect.is(setHunkStatusEffect)) {
+        const { reviewId, index, status } = effect.value;
+        reviews = reviews.map((review) =>
+          review.id === reviewId
+            ? { ...review, hunks: review.hunks.map((h, i) => (i === index ? { ...h, status } : h)) }
+            : review,
         );
-        value = builder.finish();
+        changed = true;
+      }
+      if (effect.is(replaceReviewEffect)) {
+        reviews = reviews.map((review) => (review.id === effect.value.id ? effect.value : review));
+        changed = true;
       }
       if (effect.is(clearDiffEffect)) {
-        value = Decoration.none;
+        reviews = reviews.filter((review) => review.id !== effect.value);
+        changed = true;
+      }
+      if (effect.is(refreshDisplayEffect)) {
+        display = effect.value;
+        changed = true;
       }
     }
 
-    return value;
+    if (changed) {
+      decorations = reviews.length > 0 ? buildDecorations(reviews, display) : Decoration.none;
+    }
+    return { reviews, display, decorations };
   },
-  provide: (f) => EditorView.decorations.from(f),
+  provide: (f) => EditorView.decorations.from(f, (value) => value.decorations),
 });
 
+// ── Review Actions ────────────────────────────────────────────────────────────
+
+function setHunkStatus(reviewId: string, index: number, status: HunkStatus): void {
+  const controller = reviews.get(reviewId);
+  if (!controller) return;
+  focusedReviewId = reviewId;
+  controller.view.dispatch({ effects: setHunkStatusEffect.of({ reviewId, index, status }) });
+  refreshAllViews();
+}
+
+function computeReviewHunks(view: EditorView, from: number, to: number, newText: string): ReviewHunk[] {
+  const oldText = view.state.doc.sliceString(from, to);
+  return computeDiff(oldText, newText).map((hunk) => ({
+    from: from + hunk.from,
+    to: from + hunk.to,
+    insert: hunk.insert,
+    status: 'accepted',
+  }));
+}
+
+function updateReview(id: string, update: (review: ReviewState) => ReviewState): void {
+  const controller = reviews.get(id);
+  const review = getReviewState(id);
+  if (!controller || !review) return;
+  controller.view.dispatch({ effects: replaceReviewEffect.of(update(review)) });
+}
+
+/**
+ * Shows one of the review's versions; the diff is recomputed against the
+ * original text and every change starts accepted again.
+ */
+function showVersion(id: string, versionIndex: number): void {
+  const controller = reviews.get(id);
+  if (!controller) return;
+  focusedReviewId = id;
+  updateReview(id, (review) => ({
+    ...review,
+    versionIndex,
+    hunks: computeReviewHunks(controller.view, review.start, review.end, review.versions[versionIndex]),
+  }));
+  refreshAllViews();
+}
+
+/**
+ * Sends a follow-up instruction for the proposal and shows the result as a
+ * new version.
+ */
+async function refineReview(id: string, instruction: string): Promise<void> {
+  const refine = reviews.get(id)?.refine;
+  if (!refine) return;
+
+  focusedReviewId = id;
+  updateReview(id, (review) => ({ ...review, refining: true }));
+  const text = await refine(instruction);
+
+  // The review may have been kept or undone while the request was running
+  if (!reviews.has(id)) return;
+  if (text === null) {
+    updateReview(id, (review) => ({ ...review, refining: false }));
+    return;
+  }
+
+  updateReview(id, (review) => {
+    const versions = [...review.versions, text].slice(-MAX_VERSIONS);
+    return { ...review, versions, refining: false };
+  });
+  const review = getReviewState(id);
+  if (review) showVersion(id, review.versions.length - 1);
+}
+
+function resolveReview(id: string, apply: boolean): void {
+  reviews.get(id)?.resolve(apply);
+}
+
+/**
+ * Keeps (or undoes) every pending review in every editor.
+ */
+export function resolveAllDiffReviews(apply: boolean): void {
+  for (const id of [...reviews.keys()]) {
+    resolveReview(id, apply);
+  }
+}
+
+export function hasPendingDiffReviews(): boolean {
+  return reviews.size > 0;
+}
+
+export function getPendingDiffReviewCount(): number {
+  return reviews.size;
+}
+
+/**
+ * Pending reviews in navigation order: by editor (in the order their first
+ * review was opened), then by position in the document.
+ */
+function getOrderedReviews(): { id: string; view: EditorView; start: number }[] {
+  const views = [...new Set([...reviews.values()].map((c) => c.view))];
+  return views.flatMap((view) =>
+    view.state.field(inlineDiffField).reviews
+      .filter((review) => reviews.has(review.id))
+      .sort((a, b) => a.start - b.start)
+      .map((review) => ({ id: review.id, view, start: review.start })),
+  );
+}
+
+function focusReview(id: string): void {
+  const controller = reviews.get(id);
+  const review = getReviewState(id);
+  if (!controller || !review) return;
+
+  focusedReviewId = id;
+  revealEditor?.(controller.view);
+  controller.view.focus();
+  controller.view.dispatch({
+    selection: { anchor: review.start },
+    effects: EditorView.scrollIntoView(review.start, { y: 'center' }),
+  });
+  refreshAllViews();
+}
+
+/**
+ * Moves focus to the next (1) or previous (-1) pending review, wrapping around
+ * and crossing editors. Returns false if there is no review to go to.
+ */
+export function focusAdjacentReview(direction: 1 | -1, fromId: string | null = focusedReviewId): boolean {
+  const ordered = getOrderedReviews();
+  if (ordered.length === 0) return false;
+
+  const index = ordered.findIndex((r) => r.id === fromId);
+  const target = index === -1
+    ? ordered[direction === 1 ? 0 : ordered.length - 1]
+    : ordered[(index + direction + ordered.length) % ordered.length];
+  focusReview(target.id);
+  return true;
+}
+
+/**
+ * The review Tab/Enter/Escape apply to: the one under the cursor in the
+ * focused editor, else the focused review if it is in that editor, else the
+ * first review in that editor. Without a focused editor (e.g. after clicking
+ * a review's buttons), the last focused review unless another input has focus.
+ */
+function getKeyboardTarget(): string | null {
+  const focusedView = [...reviews.values()].map((c) => c.view).find((view) => view.hasFocus);
+  if (!focusedView) {
+    // Leave keys alone while typing elsewhere, e.g. in the chat input
+    const active = document.activeElement;
+    if (active instanceof HTMLElement && (active.isContentEditable || active.matches('input, textarea, select'))) {
+      return null;
+    }
+    return focusedReviewId && reviews.has(focusedReviewId) ? focusedReviewId : null;
+  }
+
+  const inView = focusedView.state.field(inlineDiffField).reviews.filter((r) => reviews.has(r.id));
+  const cursor = focusedView.state.selection.main.head;
+  const underCursor = inView.find((r) => cursor >= r.start && cursor <= r.end);
+  if (underCursor) return underCursor.id;
+  if (inView.some((r) => r.id === focusedReviewId)) return focusedReviewId;
+  return inView[0]?.id ?? null;
+}
+
+// Capture-phase keydown to intercept before the global Escape handler
+function handleReviewKeydown(e: KeyboardEvent): void {
+  if (e.key !== 'Tab' && e.key !== 'Enter' && e.key !== 'Escape') return;
+  // Typing in a review's refine input
+  if (e.target instanceof HTMLInputElement) return;
+  const target = getKeyboardTarget();
+  if (!target) return;
+
+  e.preventDefault();
+  e.stopPropagation();
+  resolveReview(target, e.key !== 'Escape');
+}
+
 // ── Public API ────────────────────────────────────────────────────────────────
 
 /**
- * Shows an inline diff (old text with strikethrough + new text as green block)
- * with Keep/Undo buttons that scroll with the content.
+ * Shows a word-level inline diff between the text in [from, to) and
+ * `newText`: each change strikes through the removed words, shows the added
+ * words next to them, and has its own accept/reject buttons. A toolbar below
+ * keeps the accepted changes or undoes all of them. Any number of reviews can
+ * be pending at once; the new review takes keyboard focus. With `onRefine`,
+ * the toolbar also takes follow-up instructions that replace the proposal
+ * with a new version; earlier versions stay available until the review is
+ * resolved.
  *
- * Returns a promise that resolves to 'keep' or 'undo' based on user choice.
- * Only used for replace-mode inline edits.
+ * Returns a promise that resolves to the accepted hunks, with offsets mapped
+ * to the current document; an empty list means nothing should change.
+ * Used for replace-mode inline edits and for chat replies applied to a note.
  */
 export function showInlineDiff(
   editorView: EditorView,
   from: number,
   to: number,
   newText: string,
-): Promise<'keep' | 'undo'> {
+  onRefine?: RefineHandler,
+): Promise<ReviewHunk[]> {
+  const hunks = computeReviewHunks(editorView, from, to, newText);
+
+  if (hunks.length === 0) return Promise.resolve([]);
+
+  const id = `review-${nextReviewId++}`;
+
   return new Promise((resolve) => {
-    const cleanup = (decision: 'keep' | 'undo') => {
-      // Remove keyboard listener
-      if (activeDiffCallbacks) {
-        document.removeEventListener(
-          'keydown',
-          activeDiffCallbacks.keydownHandler,
-          true,
-        );
-        activeDiffCallbacks = null;
+    const cleanup = (apply: boolean) => {
+      const review = getReviewState(id);
+      reviews.delete(id);
+      refineDrafts.delete(id);
+      if (focusedReviewId === id) {
+        focusedReviewId = null;
       }
-      // Clear decorations
-      editorView.dispatch({ effects: clearDiffEffect.of(undefined) });
-      resolve(decision);
-    };
-
-    // Capture-phase keydown to intercept before the global Escape handler
-    const keydownHandler = (e: KeyboardEvent) => {
-      if (e.key === 'Tab' || e.key === 'Enter') {
-        e.preventDefault();
-        e.stopPropagation();
-        cleanup('keep');
-      } else if (e.key === 'Escape') {
-        e.preventDefault();
-        e.stopPropagation();
-        cleanup('undo');
+      // Remove keyboard listener once no reviews are left
+      if (reviews.size === 0) {
+        document.removeEventListener('keydown', handleReviewKeydown, true);
       }
+      // Clear this review's decorations
+      editorView.dispatch({ effects: clearDiffEffect.of(id) });
+      refreshAllViews();
+      resolve(apply && review ? review.hunks.filter((h) => h.status === 'accepted') : []);
     };
 
-    // Set module-level callbacks so the widget buttons can access them
-    activeDiffCallbacks = {
-      onKeep: () => cleanup('keep'),
-      onUndo: () => cleanup('undo'),
-      keydownHandler,
-    };
-
-    document.addEventListener('keydown', keydownHandler, true);
+    if (reviews.size === 0) {
+      document.addEventListener('keydown', handleReviewKeydown, true);
+    }
+    reviews.set(id, { id, view: editorView, resolve: cleanup, refine: onRefine });
+    focusedReviewId = id;
 
-    // Show diff decorations (widget includes toolbar buttons)
+    // Show diff decorations (widgets include the review buttons)
     editorView.dispatch({
-      effects: showDiffEffect.of({ from, to, newText }),
+      effects: showDiffEffect.of({
+        id,
+        start: from,
+        end: to,
+        hunks,
+        versions: [newText],
+        versionIndex: 0,
+        canRefine: !!onRefine,
+        refining: false,
+      }),
     });
+    refreshAllViews();
   });
 }
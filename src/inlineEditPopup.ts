@@ -1,29 +1,57 @@
 import { EditorView } from '@codemirror/view';
+import { prepareFuzzySearch } from 'obsidian';
+import { ACTION_PLACEMENTS, ActionPlacement, getPlacementLabel } from './actionPlacement';
+import { ModelInfo, populateModelSelect } from './modelRegistry';
 
-export type InlineEditMode = 'replace' | 'append';
+export type InlineEditMode = ActionPlacement;
+
+// Placements with their own button; the rest are in the "More" dropdown
+const BUTTON_MODES: InlineEditMode[] = ['append', 'replace'];
+
+export interface InlineEditHistoryEntry {
+  instruction: string;
+  mode: InlineEditMode;
+  model: string;
+}
+
+// Fuzzy matches from history shown below the input while typing
+const MAX_SUGGESTIONS = 5;
 
 export class InlineEditPopup {
   private container: HTMLElement;
   private input: HTMLInputElement;
   private onSubmitCallback: (instruction: string, mode: InlineEditMode, model: string) => void;
   private onDismissCallback: () => void;
+  private onSaveAsActionCallback: (instruction: string, mode: InlineEditMode, model: string) => void;
   private editorView: EditorView;
   private keydownHandler: (e: KeyboardEvent) => void;
   private mode: InlineEditMode = 'append';
+  private modeButtons = new Map<InlineEditMode, HTMLButtonElement>();
+  private moreModesSelect: HTMLSelectElement;
   private modelSelect: HTMLSelectElement;
+  private history: InlineEditHistoryEntry[]; // Most recent first
+  private historyIndex = -1; // Entry recalled with the arrow keys; -1 is the draft
+  private draft = '';
+  private suggestEl: HTMLElement;
+  private suggestions: InlineEditHistoryEntry[] = [];
+  private selectedIndex = -1; // -1 keeps the typed text
 
   constructor(
     editorView: EditorView,
     selectionFrom: number,
     selectionTo: number,
-    availableModels: { id: string; name: string }[],
+    availableModels: ModelInfo[],
     defaultModel: string,
+    history: InlineEditHistoryEntry[],
     onSubmit: (instruction: string, mode: InlineEditMode, model: string) => void,
     onDismiss: () => void,
+    onSaveAsAction: (instruction: string, mode: InlineEditMode, model: string) => void,
   ) {
     this.editorView = editorView;
+    this.history = history;
     this.onSubmitCallback = onSubmit;
     this.onDismissCallback = onDismiss;
+    this.onSaveAsActionCallback = onSaveAsAction;
 
     // Build DOM
     this.container = document.createElement('div');
@@ -36,7 +64,11 @@ export class InlineEditPopup {
     this.input = document.createElement('input');
     this.input.type = 'text';
     this.input.className = 'copilot-inline-edit-input';
-    this.input.placeholder = 'Describe your edit...';
+    this.input.placeholder = history.length > 0 ? 'Describe your edit... (↑ for recent)' : 'Describe your edit...';
+    this.input.addEventListener('input', () => {
+      this.historyIndex = -1;
+      this.updateSuggestions();
+    });
 
     const submitBtn = document.createElement('button');
     submitBtn.className = 'copilot-inline-edit-submit';
@@ -46,51 +78,69 @@ export class InlineEditPopup {
     inputRow.appendChild(this.input);
     inputRow.appendChild(submitBtn);
 
+    // Matching instructions from history
+    this.suggestEl = document.createElement('div');
+    this.suggestEl.className = 'copilot-inline-edit-suggest';
+    this.suggestEl.style.display = 'none';
+
     // Middle row: mode selector
     const modeRow = document.createElement('div');
     modeRow.className = 'copilot-inline-edit-mode-row';
 
-    const modes: { value: InlineEditMode; label: string }[] = [
-      { value: 'append', label: 'Append' },
-      { value: 'replace', label: 'Replace' },
-    ];
-
-    for (const m of modes) {
+    for (const mode of BUTTON_MODES) {
       const btn = document.createElement('button');
       btn.className = 'copilot-inline-edit-mode-btn';
-      if (m.value === this.mode) btn.classList.add('is-active');
-      btn.textContent = m.label;
-      btn.addEventListener('click', () => {
-        this.mode = m.value;
-        modeRow.querySelectorAll('.copilot-inline-edit-mode-btn').forEach(
-          (el) => el.classList.remove('is-active'),
-        );
-        btn.classList.add('is-active');
-      });
+      if (mode === this.mode) btn.classList.add('is-active');
+      btn.textContent = getPlacementLabel(mode);
+      btn.addEventListener('click', () => this.setMode(mode));
+      this.modeButtons.set(mode, btn);
       modeRow.appendChild(btn);
     }
 
+    // Other placements: prepend, callout, footnote, new note, ...
+    this.moreModesSelect = document.createElement('select');
+    this.moreModesSelect.className = 'copilot-inline-edit-mode-select';
+    const moreOption = document.createElement('option');
+    moreOption.value = '';
+    moreOption.textContent = 'More...';
+    this.moreModesSelect.appendChild(moreOption);
+    for (const placement of ACTION_PLACEMENTS) {
+      if (BUTTON_MODES.includes(placement.value)) continue;
+      const option = document.createElement('option');
+      option.value = placement.value;
+      option.textContent = placement.label;
+      option.title = placement.description;
+      this.moreModesSelect.appendChild(option);
+    }
+    this.moreModesSelect.addEventListener('change', () => {
+      this.setMode((this.moreModesSelect.value || 'append') as InlineEditMode);
+    });
+    modeRow.appendChild(this.moreModesSelect);
+
+    const saveBtn = document.createElement('button');
+    saveBtn.className = 'copilot-inline-edit-mode-btn copilot-inline-edit-save';
+    saveBtn.textContent = 'Save as action';
+    saveBtn.title = 'Save this instruction, mode, and model as a reusable action';
+    saveBtn.addEventListener('click', () => {
+      const instruction = this.input.value.trim();
+      if (!instruction) {
+        this.input.focus();
+        return;
+      }
+      this.onSaveAsActionCallback(instruction, this.mode, this.modelSelect.value);
+    });
+    modeRow.appendChild(saveBtn);
+
     // Model selector (on the same row as mode buttons, pushed right)
     this.modelSelect = document.createElement('select');
     this.modelSelect.className = 'copilot-model-select';
-    for (const model of availableModels) {
-      const option = document.createElement('option');
-      option.value = model.id;
-      option.textContent = model.name;
-      this.modelSelect.appendChild(option);
-    }
-    // Ensure default model is selectable even if not in the fetched list
-    if (defaultModel && !availableModels.some((m) => m.id === defaultModel)) {
-      const option = document.createElement('option');
-      option.value = defaultModel;
-      option.textContent = defaultModel;
-      this.modelSelect.appendChild(option);
-    }
-    this.modelSelect.value = defaultModel;
+    // Keeps the default model selectable even if not in the fetched list
+    populateModelSelect(this.modelSelect, availableModels, defaultModel);
 
     modeRow.appendChild(this.modelSelect);
 
     this.container.appendChild(inputRow);
+    this.container.appendChild(this.suggestEl);
     this.container.appendChild(modeRow);
 
     // Keyboard handling
@@ -98,11 +148,29 @@ export class InlineEditPopup {
       if (e.key === 'Enter' && !e.shiftKey) {
         e.preventDefault();
         e.stopPropagation();
+        if (this.selectedIndex >= 0) this.applyEntry(this.suggestions[this.selectedIndex]);
         this.handleSubmit();
       } else if (e.key === 'Escape') {
         e.preventDefault();
         e.stopPropagation();
-        this.onDismissCallback();
+        if (this.suggestions.length > 0) {
+          this.setSuggestions([]);
+        } else {
+          this.onDismissCallback();
+        }
+      } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+        e.preventDefault();
+        e.stopPropagation();
+        if (this.suggestions.length > 0) {
+          this.moveSelection(e.key === 'ArrowDown' ? 1 : -1);
+        } else {
+          this.recallHistory(e.key === 'ArrowUp' ? 1 : -1);
+        }
+      } else if (e.key === 'Tab' && this.suggestions.length > 0) {
+        e.preventDefault();
+        e.stopPropagation();
+        this.applyEntry(this.suggestions[Math.max(0, this.selectedIndex)]);
+        this.setSuggestions([]);
       }
     };
     this.input.addEventListener('keydown', this.keydownHandler);
@@ -132,6 +200,95 @@ export class InlineEditPopup {
     this.container.remove();
   }
 
+  private setMode(mode: InlineEditMode): void {
+    this.mode = mode;
+    this.modeButtons.forEach((btn, value) => btn.classList.toggle('is-active', value === mode));
+    const inDropdown = !BUTTON_MODES.includes(mode);
+    this.moreModesSelect.value = inDropdown ? mode : '';
+    this.moreModesSelect.classList.toggle('is-active', inDropdown);
+  }
+
+  /**
+   * Fills the input, mode and model from a history entry. The model is only
+   * changed if it is still available.
+   */
+  private applyEntry(entry: InlineEditHistoryEntry): void {
+    this.input.value = entry.instruction;
+    this.input.setSelectionRange(entry.instruction.length, entry.instruction.length);
+    this.setMode(entry.mode);
+    if (Array.from(this.modelSelect.options).some((o) => o.value === entry.model)) {
+      this.modelSelect.value = entry.model;
+    }
+  }
+
+  /**
+   * Steps through past instructions, shell style: older with ↑, newer with ↓,
+   * and back to the draft past the newest one.
+   */
+  private recallHistory(step: number): void {
+    if (this.history.length === 0) return;
+    if (this.historyIndex === -1) this.draft = this.input.value;
+
+    this.historyIndex = Math.max(-1, Math.min(this.history.length - 1, this.historyIndex + step));
+    if (this.historyIndex === -1) {
+      this.input.value = this.draft;
+    } else {
+      this.applyEntry(this.history[this.historyIndex]);
+    }
+  }
+
+  private updateSuggestions(): void {
+    const query = this.input.value.trim();
+    if (!query) {
+      this.setSuggestions([]);
+      return;
+    }
+
+    const match = prepareFuzzySearch(query);
+    const scored: { entry: InlineEditHistoryEntry; score: number }[] = [];
+    for (const entry of this.history) {
+      if (entry.instruction === query) continue;
+      const result = match(entry.instruction);
+      if (result) scored.push({ entry, score: result.score });
+    }
+    scored.sort((a, b) => b.score - a.score);
+    this.setSuggestions(scored.slice(0, MAX_SUGGESTIONS).map((s) => s.entry));
+  }
+
+  private setSuggestions(suggestions: InlineEditHistoryEntry[]): void {
+    this.suggestions = suggestions;
+    this.selectedIndex = -1;
+    this.renderSuggestions();
+  }
+
+  private moveSelection(step: number): void {
+    // Cycles through the suggestions and the typed text (-1)
+    const count = this.suggestions.length + 1;
+    this.selectedIndex = ((this.selectedIndex + 1 + step + count) % count) - 1;
+    this.renderSuggestions();
+  }
+
+  private renderSuggestions(): void {
+    this.suggestEl.empty();
+    this.suggestEl.style.display = this.suggestions.length > 0 ? 'flex' : 'none';
+
+    this.suggestions.forEach((entry, index) => {
+      const itemEl = this.suggestEl.createDiv({ cls: 'copilot-inline-edit-suggest-item' });
+      if (index === this.selectedIndex) itemEl.addClass('is-selected');
+      itemEl.createSpan({ cls: 'copilot-inline-edit-suggest-text', text: entry.instruction });
+      itemEl.createSpan({
+        cls: 'copilot-inline-edit-suggest-mode',
+        text: getPlacementLabel(entry.mode),
+      });
+      itemEl.addEventListener('mousedown', (e) => {
+        // Keep focus in the input
+        e.preventDefault();
+        this.applyEntry(entry);
+        this.setSuggestions([]);
+      });
+    });
+  }
+
   private handleSubmit(): void {
     const instruction = this.input.value.trim();
     if (instruction) {
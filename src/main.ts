@@ -1,8 +1,5 @@
-import { App, Editor, MarkdownView, Menu, Plugin, PluginManifest, PluginSettingTab, Setting, Notice, FuzzySuggestModal } from 'obsidian';
-import { CopilotClient, CopilotSession } from '@github/copilot-sdk';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { existsSync } from 'fs';
+import { App, Editor, MarkdownView, Menu, Modal, Plugin, PluginManifest, PluginSettingTab, Setting, Notice, FuzzySuggestModal, TFile, TFolder, normalizePath, getFrontMatterInfo } from 'obsidian';
+import type { EditorView } from '@codemirror/view';
 import { spinnerPlugin, SpinnerPlugin } from './spinnerPlugin';
 import {
   requestPositionTracker,
@@ -11,67 +8,115 @@ import {
   releaseTrackedRange,
 } from './requestPositionTracker';
 import { CopilotChatView, VIEW_TYPE_COPILOT_CHAT } from './chatView';
-import { InlineEditPopup, InlineEditMode } from './inlineEditPopup';
-import { inlineDiffField, showInlineDiff } from './inlineDiffView';
-
-const execAsync = promisify(exec);
+import { AiEditHistoryView, VIEW_TYPE_COPILOT_AI_EDITS } from './aiEditHistoryView';
+import { AiEditLog, AiEditSpec, aiEditTracker, applyAiEdit, combineChanges } from './aiEditLog';
+import {
+  BatchItem,
+  BatchProgressModal,
+  BatchRunner,
+  BatchScope,
+  BatchSetup,
+  BatchSetupModal,
+  getNoteBody,
+  writeBatchSummary,
+} from './batchRunner';
+import { InlineEditPopup, InlineEditMode, InlineEditHistoryEntry } from './inlineEditPopup';
+import {
+  inlineDiffField,
+  showInlineDiff,
+  hasPendingDiffReviews,
+  resolveAllDiffReviews,
+  focusAdjacentReview,
+  setDiffReviewRevealHandler,
+} from './inlineDiffView';
+import { ChatExportFormat, exportThreadToNote } from './chatExport';
+import { ChatThread } from './chatTypes';
+import { ensureMessageTree } from './chatBranches';
+import { VaultIndex } from './vaultIndex';
+import { ghostTextExtension, setGhostTextProvider, GhostTextRequest } from './ghostTextPlugin';
+import {
+  CopilotProvider,
+  ModelProvider,
+  OpenAiCompatibleProvider,
+  ProviderSession,
+  parseModelRef,
+  sendWithAbort,
+} from './modelProvider';
+import { COPILOT_STATUS_LABELS, ConnectionDiagnosticsModal } from './connectionDiagnostics';
+import { ModelInfo, ModelRegistry, populateModelSelect } from './modelRegistry';
+import { setContextWindowLookup } from './contextBudget';
+import { TEMPLATE_VARIABLES, renderActionTemplates, validateTemplate } from './promptTemplate';
+import {
+  ACTION_PARAMETER_TYPES,
+  ActionParameter,
+  ActionParameterType,
+  ActionParametersModal,
+  getInitialParameterValues,
+  validateParameters,
+} from './actionParameters';
+import {
+  ActionPlacement,
+  ACTION_PLACEMENTS,
+  formatCallout,
+  formatFootnote,
+  getDefaultPropertyName,
+  getNextFootnoteId,
+} from './actionPlacement';
 
 // ── Utilities ──────────────────────────────────────────────────────────────────
 
-async function getCopilotCliPath(): Promise<string | null> {
-  const isWindows = process.platform === 'win32';
-
-  // Platform-specific paths to check
-  const knownPaths = isWindows
-    ? [
-        process.env.LOCALAPPDATA && `${process.env.LOCALAPPDATA}\\Microsoft\\WinGet\\Packages\\GitHub.Copilot_Microsoft.Winget.Source_8wekyb3d8bbwe\\copilot.exe`,
-        process.env.APPDATA && `${process.env.APPDATA}\\npm\\copilot.cmd`,
-        process.env.USERPROFILE && `${process.env.USERPROFILE}\\.local\\bin\\copilot.exe`,
-      ]
-    : [
-        '/opt/homebrew/bin/copilot',
-        '/usr/local/bin/copilot',
-        process.env.HOME && `${process.env.HOME}/.local/bin/copilot`,
-      ];
-
-  // Check known paths first
-  for (const path of knownPaths.filter(Boolean) as string[]) {
-    if (existsSync(path)) {
-      console.log('Found Copilot CLI at:', path);
-      return path;
-    }
-  }
-
-  // Fallback to PATH lookup
-  const pathCommand = isWindows ? 'where copilot' : 'which copilot';
-  try {
-    const { stdout } = await execAsync(pathCommand);
-    const path = stdout.trim().split(/\r?\n/)[0];
-    if (path && existsSync(path)) {
-      console.log('Found Copilot CLI via PATH:', path);
-      return path;
-    }
-  } catch (error) {
-    console.error('Copilot CLI not found in PATH');
-  }
+/**
+ * Whether a vault path is inside one of the folders. An empty folder or "/"
+ * stands for the whole vault.
+ */
+function isPathInFolders(path: string, folders: string[]): boolean {
+  return folders.some((folder) => {
+    const normalized = normalizePath(folder);
+    return normalized === '/' || path.startsWith(normalized + '/');
+  });
+}
 
-  return null;
+function parseFolderList(value: string): string[] {
+  return value.split('\n').map((line) => line.trim()).filter(Boolean);
 }
 
 // ── Interfaces ─────────────────────────────────────────────────────────────────
 
-interface CopilotAction {
+export interface CopilotAction {
   name: string;
   icon: string;
   system: string;
   prompt: string;
-  replaceSelection?: boolean; // If true, replaces selection; if false, appends after
-  model?: string; // Optional per-action model override; empty means use default
+  placement: ActionPlacement; // Where the output goes; see actionPlacement.ts
+  property?: string; // Frontmatter property for the 'frontmatter' placement; defaults to the action name
+  model?: string; // Optional per-action model reference (see modelProvider.ts); empty means use default
+  parameters?: ActionParameter[]; // Asked for each time the action runs; see actionParameters.ts
 }
 
 interface CopilotPluginSettings {
   actions: CopilotAction[];
-  defaultModel: string;
+  defaultModel: string; // Empty picks the first included model
+  copilotEnabled: boolean;
+  copilotCliPath: string; // Empty to detect the CLI
+  copilotCliArgs: string;
+  openAiEnabled: boolean;
+  openAiName: string;
+  openAiBaseUrl: string;
+  openAiApiKey: string;
+  exportFormat: ChatExportFormat;
+  exportFolder: string;
+  exportLinkContextFile: boolean;
+  chatHistoryWindow: number;
+  chatSummarizeOlderHistory: boolean;
+  vaultSearchResults: number;
+  ghostTextEnabled: boolean;
+  ghostTextDelay: number; // Typing pause in milliseconds before a suggestion is requested
+  ghostTextIncludeFolders: string[]; // Empty means every folder
+  ghostTextExcludeFolders: string[];
+  inlineEditHistory: InlineEditHistoryEntry[]; // Most recent first
+  batchConcurrency: number; // Notes processed at once by a batch run
+  batchSummaryFolder: string;
+  actionParameterValues: Record<string, Record<string, string>>; // Last used parameter values, by action name
 }
 
 // ── Default actions ────────────────────────────────────────────────────────────
@@ -82,64 +127,97 @@ const DEFAULT_ACTIONS: CopilotAction[] = [
     icon: '🪄',
     system: 'You are an assistant helping a user write more content in a document based on a prompt. Output in Markdown.',
     prompt: 'Act as a professional editor with many years of experience as a writer. Carefully finalize the following text, and improve it for readability and flow.',
-    replaceSelection: true,
+    placement: 'replace',
   },
   {
     name: 'Continue writing',
     icon: '✍️',
     system: 'You are an AI assistant that follows instruction extremely well. Help as much as you can.',
     prompt: 'Continue writing the following text naturally, maintaining the same tone and style.',
-    replaceSelection: false,
+    placement: 'append',
   },
   {
     name: 'Summarize',
     icon: '🍭',
     system: 'You are an AI assistant that follows instruction extremely well. Help as much as you can.',
     prompt: 'Make a concise summary of the key points of the following text.',
-    replaceSelection: false,
+    placement: 'append',
   },
   {
     name: 'Fix spelling and grammar',
     icon: '📖',
     system: 'You are an AI assistant that follows instruction extremely well. Help as much as you can.',
     prompt: 'Proofread the below for spelling and grammar. Return only the corrected text.',
-    replaceSelection: true,
+    placement: 'replace',
   },
   {
     name: 'Find action items',
     icon: '✅',
     system: 'You are an AI assistant that follows instruction extremely well. Help as much as you can.',
     prompt: 'Act as an assistant helping find action items inside a document. An action item is an extracted task or to-do found in the text. Format each item as a Markdown checkbox: - [ ] item text',
-    replaceSelection: false,
+    placement: 'append',
   },
   {
     name: 'Rewrite selection',
     icon: '🔄',
     system: 'You are an AI assistant that follows instruction extremely well. Help as much as you can.',
     prompt: 'Rewrite the following text to improve clarity, grammar, and style. Return only the rewritten text.',
-    replaceSelection: true,
+    placement: 'replace',
   },
   {
     name: 'Generate code',
     icon: '💻',
     system: 'You are an AI assistant that follows instruction extremely well. Help as much as you can.',
     prompt: 'Based on the following text, generate code that accomplishes what is described. Wrap all code output in a fenced Markdown code block with the appropriate language identifier. Only output the code block, no additional explanation.',
-    replaceSelection: false,
+    placement: 'append',
   },
   {
     name: 'Plan',
     icon: '🧠',
     system: 'You are an AI assistant that follows instruction extremely well. Help as much as you can.',
     prompt: 'You are a top-tier DevOps engineer about to embark on a new project. Based on the provided information given to you, generate a highly detailed spec on how to accomplish this project.',
-    replaceSelection: false,
+    placement: 'append',
   },
 ];
 
 const DEFAULT_SETTINGS: CopilotPluginSettings = {
   actions: DEFAULT_ACTIONS,
-  defaultModel: 'gpt-4o',
+  defaultModel: '',
+  copilotEnabled: true,
+  copilotCliPath: '',
+  copilotCliArgs: '',
+  openAiEnabled: false,
+  openAiName: 'Local',
+  openAiBaseUrl: 'http://localhost:11434/v1',
+  openAiApiKey: '',
+  exportFormat: 'callouts',
+  exportFolder: '',
+  exportLinkContextFile: true,
+  chatHistoryWindow: 20,
+  chatSummarizeOlderHistory: false,
+  vaultSearchResults: 5,
+  ghostTextEnabled: false,
+  ghostTextDelay: 750,
+  ghostTextIncludeFolders: [],
+  ghostTextExcludeFolders: [],
+  inlineEditHistory: [],
+  batchConcurrency: 3,
+  batchSummaryFolder: '',
+  actionParameterValues: {},
 };
 
+// Instructions remembered by the inline edit popup
+const MAX_INLINE_EDIT_HISTORY = 50;
+
+const INLINE_EDIT_SYSTEM = [
+  'You are an AI assistant editing text inline. You output RAW CONTENT ONLY.',
+  'When outputting code, always wrap it in a fenced Markdown code block with the correct language identifier (e.g. ```python).',
+  'NEVER include introductory text, explanations, preamble, or commentary like "Here is..." or "Sure, here\'s...". Output ONLY the raw content that will be inserted directly into the document.',
+].join('\n');
+
+const GHOST_TEXT_SYSTEM =
+  'You are an autocomplete engine inside a Markdown note editor. Continue the text at the cursor with a short, natural continuation of at most one sentence, matching the tone and language of the note. Output only the text to insert, with a leading space if one is needed, and no quotes, explanations, or code fences. If no continuation makes sense, output nothing.';
+
 // ── Action Palette Modal ───────────────────────────────────────────────────────
 
 class CopilotActionModal extends FuzzySuggestModal<CopilotAction> {
@@ -166,22 +244,132 @@ class CopilotActionModal extends FuzzySuggestModal<CopilotAction> {
   }
 }
 
+// ── Save Action Modal ──────────────────────────────────────────────────────────
+
+class SaveActionModal extends Modal {
+  private name: string;
+  private onSubmit: (name: string) => void;
+
+  constructor(app: App, defaultName: string, onSubmit: (name: string) => void) {
+    super(app);
+    this.name = defaultName;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen(): void {
+    this.titleEl.setText('Save as action');
+
+    new Setting(this.contentEl)
+      .setName('Name')
+      .setDesc('Shown in the action palette and as a command.')
+      .addText((text) => {
+        text.setValue(this.name).onChange((value) => {
+          this.name = value;
+        });
+        text.inputEl.addEventListener('keydown', (e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            this.submit();
+          }
+        });
+        requestAnimationFrame(() => text.inputEl.select());
+      });
+
+    new Setting(this.contentEl).addButton((btn) =>
+      btn
+        .setButtonText('Save')
+        .setCta()
+        .onClick(() => this.submit())
+    );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private submit(): void {
+    const name = this.name.trim();
+    if (!name) return;
+    this.onSubmit(name);
+    this.close();
+  }
+}
+
+// ── Template Preview Modal ─────────────────────────────────────────────────────
+
+/**
+ * Shows an action's system prompt and prompt as they would be sent from the
+ * active note, or the template errors.
+ */
+class TemplatePreviewModal extends Modal {
+  constructor(
+    app: App,
+    private action: CopilotAction,
+    private parameterValues: Record<string, string>, // Used for {{param.<name>}}
+  ) {
+    super(app);
+  }
+
+  onOpen(): void {
+    this.titleEl.setText(`Preview: ${this.action.icon} ${this.action.name}`);
+    void this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private async render(): Promise<void> {
+    const { contentEl } = this;
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    const file = view?.file ?? this.app.workspace.getActiveFile();
+    const editor = view?.editor;
+
+    contentEl.createDiv({
+      cls: 'copilot-template-preview-source',
+      text: file ? `Rendered for ${file.basename}${editor?.somethingSelected() ? ', with its current selection' : ''}` : 'No note open; note variables are empty',
+    });
+
+    try {
+      const templates = await renderActionTemplates(this.app, this.action, {
+        selection: editor?.getSelection() ?? '',
+        file,
+        cursorOffset: editor ? editor.posToOffset(editor.getCursor('from')) : 0,
+        parameters: this.parameterValues,
+      });
+      contentEl.createDiv({ cls: 'copilot-template-preview-label', text: 'System prompt' });
+      contentEl.createEl('pre', { cls: 'copilot-template-preview', text: templates.system });
+      contentEl.createDiv({ cls: 'copilot-template-preview-label', text: 'Prompt' });
+      contentEl.createEl('pre', { cls: 'copilot-template-preview', text: templates.prompt });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      contentEl.createDiv({ cls: 'copilot-template-errors', text: message });
+    }
+  }
+}
+
 // ── Main Plugin ────────────────────────────────────────────────────────────────
 
 export default class CopilotPlugin extends Plugin {
   settings!: CopilotPluginSettings;
-  copilotClient: CopilotClient | null = null;
-  availableModels: { id: string; name: string }[] = [];
+  providers: ModelProvider[] = [];
+  copilotProvider!: CopilotProvider;
+  modelRegistry = new ModelRegistry();
+  vaultIndex!: VaultIndex;
+  aiEditLog!: AiEditLog;
   private abortControllers: AbortController[] = [];
   private escapeHandler: (event: KeyboardEvent) => void;
   private activeInlineEditPopup: InlineEditPopup | null = null;
-  private pendingDiffReview = false;
+  private activeBatch: { runner: BatchRunner; modal: BatchProgressModal } | null = null;
+  private batchStatusEl: HTMLElement | null = null;
+  private connectionStatusEl: HTMLElement | null = null;
+  private reportedFallbacks = new Set<string>();
 
   constructor(app: App, manifest: PluginManifest) {
     super(app, manifest);
     this.escapeHandler = (event: KeyboardEvent) => {
       if (event.key === 'Escape') {
-        if (this.pendingDiffReview) return;
+        if (hasPendingDiffReviews()) return;
         this.abortControllers.forEach((ac) => ac.abort());
         this.abortControllers = [];
       }
@@ -196,6 +384,53 @@ export default class CopilotPlugin extends Plugin {
     this.registerEditorExtension(spinnerPlugin);
     this.registerEditorExtension(requestPositionTracker);
     this.registerEditorExtension(inlineDiffField);
+    this.registerEditorExtension(ghostTextExtension);
+    this.registerEditorExtension(aiEditTracker);
+
+    // Ghost text suggestions while typing, when enabled for the note's folder
+    setGhostTextProvider({
+      complete: (request, signal) => this.completeGhostText(request, signal),
+      isEnabledFor: (filePath) => this.isGhostTextEnabledFor(filePath),
+      getDelay: () => this.settings.ghostTextDelay,
+    });
+
+    // Activate the leaf of an editor when jumping to a diff review in it
+    setDiffReviewRevealHandler((editorView) => {
+      const leaf = this.app.workspace.getLeavesOfType('markdown').find((l) => {
+        // @ts-expect-error - editor.cm is not typed in Obsidian's API
+        return l.view instanceof MarkdownView && l.view.editor.cm === editorView;
+      });
+      if (leaf) this.app.workspace.setActiveLeaf(leaf, { focus: true });
+    });
+
+    // Vault search index, kept up to date once chat vault mode has loaded it
+    const pluginDir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    this.vaultIndex = new VaultIndex(this.app, pluginDir);
+    this.aiEditLog = new AiEditLog(this.app, `${pluginDir}/ai-edits.json`);
+    this.registerEvent(
+      this.app.vault.on('create', (file) => {
+        if (file instanceof TFile) this.vaultIndex.queueFile(file);
+      })
+    );
+    this.registerEvent(
+      this.app.vault.on('modify', (file) => {
+        if (file instanceof TFile) this.vaultIndex.queueFile(file);
+      })
+    );
+    this.registerEvent(
+      this.app.vault.on('delete', (file) => {
+        this.vaultIndex.removeFile(file.path);
+        void this.aiEditLog.removeFile(file.path);
+      })
+    );
+    this.registerEvent(
+      this.app.vault.on('rename', (file, oldPath) => {
+        if (file instanceof TFile) {
+          this.vaultIndex.renameFile(file, oldPath);
+          void this.aiEditLog.renameFile(oldPath, file.path);
+        }
+      })
+    );
 
     // Register chat view
     this.registerView(
@@ -203,6 +438,11 @@ export default class CopilotPlugin extends Plugin {
       (leaf) => new CopilotChatView(leaf, this)
     );
 
+    this.registerView(
+      VIEW_TYPE_COPILOT_AI_EDITS,
+      (leaf) => new AiEditHistoryView(leaf, this)
+    );
+
     // Add ribbon icon for chat
     this.addRibbonIcon('message-square', 'Open Copilot Chat', () => {
       void this.activateChatView();
@@ -211,54 +451,49 @@ export default class CopilotPlugin extends Plugin {
     // Listen for Escape to abort streaming
     this.registerDomEvent(document, 'keydown', this.escapeHandler);
 
-    // Initialize Copilot SDK client (but don't fail plugin load if this fails)
-    try {
-      console.log('Attempting to locate GitHub Copilot CLI...');
-      const cliPath = await getCopilotCliPath();
-
-      if (!cliPath) {
-        const message = 'GitHub Copilot CLI not found. Please install it using winget, npm, or your package manager.';
-        console.error(message);
-        new Notice(message, 8000);
-      } else {
-        console.log('Initializing Copilot SDK client with path:', cliPath);
-
-        const isWindows = process.platform === 'win32';
-        const clientOptions: any = {
-          cliPath,
-          autoStart: true,
-          autoRestart: true,
-        };
-
-        // Use stdio on Unix/macOS, TCP on Windows
-        if (isWindows) {
-          console.log('Windows detected - using TCP mode');
-          clientOptions.useStdio = false;
-        } else {
-          console.log('Unix/macOS detected - using stdio mode');
-          clientOptions.useStdio = true;
-        }
+    // Connection status of the default model's provider; click for diagnostics
+    this.connectionStatusEl = this.addStatusBarItem();
+    this.connectionStatusEl.addClass('mod-clickable', 'copilot-connection-status');
+    this.connectionStatusEl.addEventListener('click', () => this.openConnectionDiagnostics());
+
+    // Connect to the model providers (but don't fail plugin load if this fails)
+    this.copilotProvider = new CopilotProvider(() => ({
+      cliPath: this.settings.copilotCliPath,
+      cliArgs: this.settings.copilotCliArgs,
+    }));
+    this.register(this.copilotProvider.onStatusChange(() => this.updateConnectionStatus()));
+    this.register(this.modelRegistry.onChange(() => this.updateConnectionStatus()));
+    setContextWindowLookup((modelId) => this.modelRegistry.getModel(modelId)?.contextWindow);
+    this.providers = [
+      this.copilotProvider,
+      new OpenAiCompatibleProvider(() => ({
+        name: this.settings.openAiName,
+        baseUrl: this.settings.openAiBaseUrl,
+        apiKey: this.settings.openAiApiKey,
+      })),
+    ];
+    await this.connectProviders();
 
-        this.copilotClient = new CopilotClient(clientOptions);
+    this.addCommand({
+      id: 'reconnect-copilot',
+      name: 'Reconnect Copilot',
+      callback: () => void this.reconnectCopilot(),
+    });
 
-        console.log('Starting Copilot client...');
-        await this.copilotClient.start();
-        console.log('Copilot client started successfully');
+    this.addCommand({
+      id: 'refresh-copilot-models',
+      name: 'Refresh models',
+      callback: async () => {
+        await this.refreshModels();
+        new Notice(`${this.availableModels.length} models available`);
+      },
+    });
 
-        // Fetch and cache available models
-        const models = await this.copilotClient.listModels();
-        this.availableModels = models
-          .filter((m: any) => !m.policy || m.policy.state !== 'disabled')
-          .map((m: any) => ({ id: m.id, name: m.name }));
-        console.log('Successfully fetched models:', this.availableModels.length);
-        new Notice('GitHub Copilot initialized successfully');
-      }
-    } catch (error) {
-      console.error('Failed to initialize Copilot SDK client:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      new Notice(`Copilot failed to initialize: ${errorMessage}`, 8000);
-      // Continue loading the plugin even if Copilot initialization fails
-    }
+    this.addCommand({
+      id: 'show-copilot-connection-diagnostics',
+      name: 'Show connection diagnostics',
+      callback: () => this.openConnectionDiagnostics(),
+    });
 
     // Chat commands
     this.addCommand({
@@ -277,13 +512,21 @@ export default class CopilotPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: 'export-copilot-chat',
+      name: 'Export conversation',
+      callback: () => {
+        void this.exportCurrentConversation();
+      },
+    });
+
     // Action Palette
     this.addCommand({
       id: 'copilot-action-palette',
       name: 'Action palette',
       editorCallback: (editor: Editor) => {
         new CopilotActionModal(this.app, this.settings.actions, (action) => {
-          void this.executeAction(editor, action);
+          this.runAction(editor, action);
         }).open();
       },
     });
@@ -297,6 +540,84 @@ export default class CopilotPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: 'toggle-copilot-ghost-text',
+      name: 'Toggle autocomplete suggestions',
+      callback: async () => {
+        this.settings.ghostTextEnabled = !this.settings.ghostTextEnabled;
+        await this.saveSettings();
+        new Notice(`Copilot autocomplete ${this.settings.ghostTextEnabled ? 'enabled' : 'disabled'}`);
+      },
+    });
+
+    this.addCommand({
+      id: 'copilot-run-batch',
+      name: 'Run action on multiple notes',
+      callback: () => {
+        const folder = this.app.workspace.getActiveFile()?.parent?.path ?? '/';
+        this.openBatchSetup({ kind: 'folder', value: folder });
+      },
+    });
+
+    this.addCommand({
+      id: 'copilot-show-batch-progress',
+      name: 'Show batch progress',
+      checkCallback: (checking: boolean) => {
+        if (!this.activeBatch) return false;
+        if (!checking) this.activeBatch.modal.open();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'open-copilot-ai-edit-history',
+      name: 'Open AI edit history',
+      callback: () => {
+        void this.activateAiEditHistoryView();
+      },
+    });
+
+    // Diff review commands
+    this.addCommand({
+      id: 'copilot-keep-all-reviews',
+      name: 'Keep all pending changes',
+      checkCallback: (checking: boolean) => {
+        if (!hasPendingDiffReviews()) return false;
+        if (!checking) resolveAllDiffReviews(true);
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'copilot-undo-all-reviews',
+      name: 'Undo all pending changes',
+      checkCallback: (checking: boolean) => {
+        if (!hasPendingDiffReviews()) return false;
+        if (!checking) resolveAllDiffReviews(false);
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'copilot-next-review',
+      name: 'Go to next pending change',
+      checkCallback: (checking: boolean) => {
+        if (!hasPendingDiffReviews()) return false;
+        if (!checking) focusAdjacentReview(1);
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'copilot-previous-review',
+      name: 'Go to previous pending change',
+      checkCallback: (checking: boolean) => {
+        if (!hasPendingDiffReviews()) return false;
+        if (!checking) focusAdjacentReview(-1);
+        return true;
+      },
+    });
+
     // Right-click context menu: send selection to chat
     this.registerEvent(
       this.app.workspace.on('editor-menu', (menu: Menu, editor: Editor, view: MarkdownView) => {
@@ -314,6 +635,19 @@ export default class CopilotPlugin extends Plugin {
       })
     );
 
+    // Folder context menu: run an action on every note in the folder
+    this.registerEvent(
+      this.app.workspace.on('file-menu', (menu, file) => {
+        if (!(file instanceof TFolder)) return;
+        menu.addItem((item) => {
+          item
+            .setTitle('Run Copilot action on folder')
+            .setIcon('bot')
+            .onClick(() => this.openBatchSetup({ kind: 'folder', value: file.path }));
+        });
+      })
+    );
+
     // Register individual action commands
     this.registerActionCommands();
   }
@@ -323,17 +657,180 @@ export default class CopilotPlugin extends Plugin {
     this.abortControllers.forEach((ac) => ac.abort());
     this.abortControllers = [];
 
+    setGhostTextProvider(null);
+    setContextWindowLookup(null);
+
+    // Don't lose an AI edit logged within the save delay
+    this.aiEditLog.flush();
+
     // Detach chat view leaves
     this.app.workspace.detachLeavesOfType(VIEW_TYPE_COPILOT_CHAT);
+    this.app.workspace.detachLeavesOfType(VIEW_TYPE_COPILOT_AI_EDITS);
 
-    // Clean up Copilot SDK client
-    if (this.copilotClient) {
-      void this.copilotClient.stop().catch((error: unknown) => {
-        console.error('Error stopping Copilot SDK client:', error);
+    // Clean up provider connections, e.g. the Copilot SDK client
+    for (const provider of this.providers) {
+      void provider.stop().catch((error: unknown) => {
+        console.error(`Error stopping ${provider.name}:`, error);
       });
     }
   }
 
+  // ── Model Providers ──────────────────────────────────────────────────────────
+
+  private isProviderEnabled(provider: ModelProvider): boolean {
+    return provider.id === 'copilot' ? this.settings.copilotEnabled : this.settings.openAiEnabled;
+  }
+
+  /**
+   * Starts the enabled providers and stops the disabled ones, then refreshes
+   * the model list. A provider that fails to start is reported and skipped.
+   */
+  async connectProviders(): Promise<void> {
+    for (const provider of this.providers) {
+      if (!this.isProviderEnabled(provider)) {
+        await provider.stop().catch((error: unknown) => {
+          console.error(`Error stopping ${provider.name}:`, error);
+        });
+        continue;
+      }
+      if (provider.isReady()) continue;
+
+      try {
+        await provider.start();
+        new Notice(`${provider.name} initialized successfully`);
+      } catch (error) {
+        console.error(`Failed to initialize ${provider.name}:`, error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        new Notice(`${provider.name} failed to initialize: ${errorMessage}`, 8000);
+      }
+    }
+    await this.refreshModels();
+  }
+
+  /** Models of the connected providers, including those disabled by policy. */
+  get availableModels(): ModelInfo[] {
+    return this.modelRegistry.getModels();
+  }
+
+  /**
+   * Refetches the models of every enabled, connected provider.
+   */
+  async refreshModels(): Promise<void> {
+    await this.modelRegistry.refresh(this.providers.filter((p) => this.isProviderEnabled(p) && p.isReady()));
+    console.log('Successfully fetched models:', this.availableModels.length);
+  }
+
+  /**
+   * The model to use for `modelRef`: the model itself if it is available,
+   * otherwise the default model, otherwise the registry's fallback. An empty
+   * reference means the default model. Unchanged until the models are loaded.
+   */
+  getEffectiveModel(modelRef: string): string {
+    const registry = this.modelRegistry;
+    const requested = modelRef || this.settings.defaultModel;
+    if (!registry.isLoaded() || registry.getModels().length === 0) return requested;
+
+    for (const candidate of [modelRef, this.settings.defaultModel]) {
+      if (candidate && registry.isAvailable(candidate)) return candidate;
+    }
+    return registry.getFallbackModel()?.id ?? requested;
+  }
+
+  /**
+   * Like `getEffectiveModel`, telling the user (once per model) when a chosen
+   * model isn't available and another one is used instead.
+   */
+  resolveModel(modelRef: string): string {
+    const resolved = this.getEffectiveModel(modelRef);
+    const requested = modelRef || this.settings.defaultModel;
+    if (requested && resolved !== requested && !this.reportedFallbacks.has(requested)) {
+      this.reportedFallbacks.add(requested);
+      const name = this.modelRegistry.getModel(resolved)?.name ?? resolved;
+      new Notice(`Model ${requested} is not available; using ${name} instead`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Why a model can't be used right now, e.g. its provider is disabled; null
+   * if it can.
+   */
+  getModelError(modelRef: string): string | null {
+    const { provider: providerId } = parseModelRef(modelRef);
+    const provider = this.providers.find((p) => p.id === providerId);
+    if (!provider) return `Unknown provider for model ${modelRef}`;
+    if (!this.isProviderEnabled(provider)) return `${provider.name} is disabled. Enable it in the plugin settings.`;
+    if (!provider.isReady()) {
+      return provider === this.copilotProvider
+        ? `${provider.name} is not connected. Run "Reconnect Copilot" to try again.`
+        : `${provider.name} is not set up. Set its server URL in the plugin settings.`;
+    }
+    return null;
+  }
+
+  /**
+   * Restarts the Copilot client, e.g. after installing or signing in to the
+   * CLI, and refreshes the model list.
+   */
+  async reconnectCopilot(): Promise<void> {
+    if (!this.settings.copilotEnabled) {
+      new Notice('GitHub Copilot is disabled. Enable it in the plugin settings.');
+      return;
+    }
+
+    try {
+      await this.copilotProvider.restart();
+      new Notice('GitHub Copilot reconnected');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      new Notice(`Copilot failed to reconnect: ${errorMessage}`, 8000);
+    }
+    await this.refreshModels();
+    this.updateConnectionStatus();
+  }
+
+  openConnectionDiagnostics(): void {
+    new ConnectionDiagnosticsModal(this.app, this.copilotProvider, () => this.reconnectCopilot()).open();
+  }
+
+  /**
+   * Shows the default model and whether its provider is connected.
+   */
+  updateConnectionStatus(): void {
+    const el = this.connectionStatusEl;
+    if (!el) return;
+
+    const modelRef = this.getEffectiveModel('');
+    const modelName = this.modelRegistry.getModel(modelRef)?.name ?? (parseModelRef(modelRef).model || 'Default model');
+    let label: string;
+    let state: string;
+    if (parseModelRef(modelRef).provider === 'copilot') {
+      const status = this.settings.copilotEnabled ? this.copilotProvider.getStatus() : 'disconnected';
+      state = status;
+      label = `Copilot: ${COPILOT_STATUS_LABELS[status]}`;
+    } else {
+      const error = this.getModelError(modelRef);
+      state = error ? 'error' : 'ready';
+      label = `${this.settings.openAiName || 'OpenAI-compatible'}: ${error ? 'Not set up' : 'Ready'}`;
+    }
+
+    el.setText(`${label} · ${modelName}`);
+    el.setAttribute('aria-label', 'Copilot connection diagnostics');
+    el.dataset.status = state;
+  }
+
+  /**
+   * Creates a session with the model's provider. Throws if the model can't be
+   * used right now.
+   */
+  async createModelSession(modelRef: string, systemMessage: string, streaming = false): Promise<ProviderSession> {
+    const error = this.getModelError(modelRef);
+    if (error) throw new Error(error);
+    const { provider: providerId, model } = parseModelRef(modelRef);
+    const provider = this.providers.find((p) => p.id === providerId) as ModelProvider;
+    return provider.createSession({ model, systemMessage, streaming });
+  }
+
   async activateChatView() {
     const { workspace } = this.app;
 
@@ -355,6 +852,27 @@ export default class CopilotPlugin extends Plugin {
     }
   }
 
+  async activateAiEditHistoryView() {
+    const { workspace } = this.app;
+
+    let leaf = workspace.getLeavesOfType(VIEW_TYPE_COPILOT_AI_EDITS)[0];
+
+    if (!leaf) {
+      const rightLeaf = workspace.getRightLeaf(false);
+      if (rightLeaf) {
+        await rightLeaf.setViewState({
+          type: VIEW_TYPE_COPILOT_AI_EDITS,
+          active: true,
+        });
+        leaf = workspace.getLeavesOfType(VIEW_TYPE_COPILOT_AI_EDITS)[0];
+      }
+    }
+
+    if (leaf) {
+      workspace.revealLeaf(leaf);
+    }
+  }
+
   async toggleChatView() {
     const { workspace } = this.app;
     const leaves = workspace.getLeavesOfType(VIEW_TYPE_COPILOT_CHAT);
@@ -368,6 +886,45 @@ export default class CopilotPlugin extends Plugin {
     }
   }
 
+  /**
+   * Export the chat view's current thread, or the last active thread from
+   * saved data if the chat view is closed.
+   */
+  async exportCurrentConversation(): Promise<void> {
+    const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_COPILOT_CHAT);
+    if (leaves.length > 0) {
+      await (leaves[0].view as CopilotChatView).exportCurrentThread();
+      return;
+    }
+
+    const data = await this.loadData();
+    const threads: ChatThread[] = data?.chatSettings?.threads ?? [];
+    const thread = threads.find((t) => t.id === data?.chatSettings?.currentThreadId);
+    if (thread) ensureMessageTree(thread);
+    await this.exportThread(thread ?? null);
+  }
+
+  async exportThread(thread: ChatThread | null): Promise<void> {
+    if (!thread || thread.messages.length === 0) {
+      new Notice('No conversation to export');
+      return;
+    }
+
+    try {
+      const file = await exportThreadToNote(this.app, thread, {
+        format: this.settings.exportFormat,
+        folder: this.settings.exportFolder,
+        linkContextFile: this.settings.exportLinkContextFile,
+      });
+      await this.app.workspace.getLeaf('tab').openFile(file);
+      new Notice(`Conversation exported to ${file.path}`);
+    } catch (error) {
+      console.error('Failed to export conversation:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      new Notice('Export failed: ' + message);
+    }
+  }
+
   private showInlineEditPopup(editor: Editor): void {
     // Dismiss any existing popup
     if (this.activeInlineEditPopup) {
@@ -385,21 +942,19 @@ export default class CopilotPlugin extends Plugin {
       cursorFrom,
       cursorTo,
       this.availableModels,
-      this.settings.defaultModel,
+      this.getEffectiveModel(''),
+      this.settings.inlineEditHistory,
       (instruction: string, mode: InlineEditMode, model: string) => {
         popup.dismiss();
         this.activeInlineEditPopup = null;
+        void this.recordInlineEditInstruction({ instruction, mode, model });
 
         const action: CopilotAction = {
           name: 'Inline edit',
           icon: '✏️',
-          system: [
-            'You are an AI assistant editing text inline. You output RAW CONTENT ONLY.',
-            'When outputting code, always wrap it in a fenced Markdown code block with the correct language identifier (e.g. ```python).',
-            'NEVER include introductory text, explanations, preamble, or commentary like "Here is..." or "Sure, here\'s...". Output ONLY the raw content that will be inserted directly into the document.',
-          ].join('\n'),
+          system: INLINE_EDIT_SYSTEM,
           prompt: instruction,
-          replaceSelection: mode === 'replace',
+          placement: mode,
           model: model,
         };
         void this.executeAction(editor, action);
@@ -408,6 +963,12 @@ export default class CopilotPlugin extends Plugin {
         popup.dismiss();
         this.activeInlineEditPopup = null;
       },
+      (instruction: string, mode: InlineEditMode, model: string) => {
+        const defaultName = instruction.length > 40 ? instruction.slice(0, 40).trimEnd() + '…' : instruction;
+        new SaveActionModal(this.app, defaultName, (name) => {
+          void this.saveInlineEditAsAction(name, { instruction, mode, model });
+        }).open();
+      },
     );
 
     this.activeInlineEditPopup = popup;
@@ -422,43 +983,116 @@ export default class CopilotPlugin extends Plugin {
 
     const chatView = leaves[0].view as CopilotChatView;
     const fileName = view.file?.basename || 'unknown';
-    chatView.setContextAndFocus(selection, fileName);
+    chatView.setContextAndFocus(selection, fileName, view.file?.path);
   }
 
   private registerActionCommands() {
     for (const action of this.settings.actions) {
-      const id = 'copilot-' + action.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
-      this.addCommand({
-        id,
-        name: action.icon + ' ' + action.name,
-        editorCallback: (editor: Editor) => this.executeAction(editor, action),
-      });
+      this.registerActionCommand(action);
+    }
+  }
+
+  private registerActionCommand(action: CopilotAction) {
+    const id = 'copilot-' + action.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    this.addCommand({
+      id,
+      name: action.icon + ' ' + action.name,
+      editorCallback: (editor: Editor) => this.runAction(editor, action),
+    });
+  }
+
+  /**
+   * Runs an action from the palette or its command, first asking for the
+   * values of its parameters if it has any.
+   */
+  private runAction(editor: Editor, action: CopilotAction): void {
+    this.askActionParameters(action, (values) => void this.executeAction(editor, action, values));
+  }
+
+  /**
+   * Shows the parameter form of an action, starting from the values last
+   * used, and remembers the submitted values. Actions without parameters
+   * skip the form.
+   */
+  askActionParameters(action: CopilotAction, onSubmit: (values: Record<string, string>) => void): void {
+    const parameters = action.parameters ?? [];
+    if (parameters.length === 0) {
+      onSubmit({});
+      return;
+    }
+    const parameterErrors = validateParameters(parameters);
+    if (parameterErrors.length > 0) {
+      new Notice(`Invalid action parameters: ${action.name} - ${parameterErrors.join('; ')}`, 8000);
+      return;
     }
+
+    const title = action.icon + ' ' + action.name;
+    new ActionParametersModal(this.app, title, parameters, this.getActionParameterValues(action), (values) => {
+      this.settings.actionParameterValues = { ...this.settings.actionParameterValues, [action.name]: values };
+      void this.saveSettings();
+      onSubmit(values);
+    }).open();
+  }
+
+  /** The values an action's parameter form starts with. */
+  getActionParameterValues(action: CopilotAction): Record<string, string> {
+    return getInitialParameterValues(action.parameters ?? [], this.settings.actionParameterValues[action.name]);
   }
 
-  async executeAction(editor: Editor, action: CopilotAction) {
-    if (!this.copilotClient) {
-      new Notice('Copilot SDK client not initialized. Please reload the plugin.');
+  /**
+   * Moves an instruction to the front of the inline edit history, keeping
+   * the mode and model it was last used with.
+   */
+  private async recordInlineEditInstruction(entry: InlineEditHistoryEntry): Promise<void> {
+    const history = this.settings.inlineEditHistory.filter((e) => e.instruction !== entry.instruction);
+    this.settings.inlineEditHistory = [entry, ...history].slice(0, MAX_INLINE_EDIT_HISTORY);
+    await this.saveSettings();
+  }
+
+  /**
+   * Turns an inline edit instruction into an action available in the action
+   * palette and as a command.
+   */
+  private async saveInlineEditAsAction(name: string, entry: InlineEditHistoryEntry): Promise<void> {
+    if (this.settings.actions.some((a) => a.name === name)) {
+      new Notice(`An action named "${name}" already exists`);
       return;
     }
 
-    const selection = editor.getSelection();
+    const action: CopilotAction = {
+      name,
+      icon: '✏️',
+      system: INLINE_EDIT_SYSTEM,
+      prompt: entry.instruction,
+      placement: entry.mode,
+      model: entry.model,
+    };
+    this.settings.actions.push(action);
+    await this.saveSettings();
+    this.registerActionCommand(action);
+    new Notice(`Saved action "${name}"`);
+  }
+
+  async executeAction(editor: Editor, action: CopilotAction, parameterValues: Record<string, string> = {}) {
+    const modelRef = this.resolveModel(action.model ?? '');
+    const modelError = this.getModelError(modelRef);
+    if (modelError) {
+      new Notice(modelError);
+      return;
+    }
 
     // Access the CM6 EditorView
     // @ts-expect-error - editor.cm is not typed in Obsidian's API
     const editorView = editor.cm;
 
-    // Track cursor positions
-    const cursorPositionFrom = editor.getCursor('from');
-    const cursorPositionTo = editor.getCursor('to');
-    const cursorOffsetFrom = editor.posToOffset(cursorPositionFrom);
-    const cursorOffsetTo = editor.posToOffset(cursorPositionTo);
-
-    // Set up abort controller
-    const abortController = new AbortController();
-    this.abortControllers.push(abortController);
+    // Capture the selection and its range together, before anything async
+    const selection = editor.getSelection();
+    const file = this.app.workspace.getActiveViewOfType(MarkdownView)?.file ?? null;
+    const cursorOffsetFrom = editor.posToOffset(editor.getCursor('from'));
+    const cursorOffsetTo = editor.posToOffset(editor.getCursor('to'));
 
-    // Track the selection range through document changes
+    // Track the selection range through document changes, including any made
+    // while the templates are filled in
     let selectionTrackerId = trackSelectionRange(
       editorView,
       cursorOffsetFrom,
@@ -470,11 +1104,37 @@ export default class CopilotPlugin extends Plugin {
         selectionTrackerId = null;
       }
     };
+
+    // Fill in template variables such as {{note.title}} before anything is shown
+    let templates: { system: string; prompt: string };
+    try {
+      templates = await renderActionTemplates(this.app, action, {
+        selection,
+        file,
+        cursorOffset: cursorOffsetFrom,
+        parameters: parameterValues,
+      });
+    } catch (error: unknown) {
+      releaseTracker();
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      new Notice('Invalid action template: ' + message, 8000);
+      return;
+    }
+
+    // Set up abort controller
+    const abortController = new AbortController();
+    this.abortControllers.push(abortController);
     abortController.signal.addEventListener('abort', releaseTracker);
 
-    // Show spinner decoration at cursor position
+    // Show spinner decoration after the selection, where it is now
+    const previewOffset =
+      (selectionTrackerId ? getTrackedRange(editorView, selectionTrackerId)?.insertAfter : undefined) ?? cursorOffsetTo;
     const spinner = editorView.plugin(spinnerPlugin) as SpinnerPlugin | undefined;
-    const hideSpinner = spinner?.show(cursorOffsetTo);
+    const hideSpinner = spinner?.show(previewOffset, {
+      app: this.app,
+      sourcePath: file?.path ?? '',
+      onStop: () => abortController.abort(),
+    });
     this.app.workspace.updateOptions();
 
     abortController.signal.addEventListener('abort', () => {
@@ -488,41 +1148,30 @@ export default class CopilotPlugin extends Plugin {
       spinner.processText(
         updatedString,
         (text: string) => this.processText(text, selection || ''),
-        cursorOffsetTo,
+        previewOffset,
       );
       this.app.workspace.updateOptions();
     };
 
-    let session: CopilotSession | null = null;
+    let session: ProviderSession | null = null;
     let accumulatedText = '';
 
     try {
       // Create a new session with streaming enabled
-      session = await this.copilotClient.createSession({
-        model: action.model || this.settings.defaultModel,
-        streaming: true,
-        systemMessage: {
-          content: action.system,
-        },
-      });
+      session = await this.createModelSession(modelRef, templates.system, true);
 
-      // Set up event handlers for streaming into decoration (not document)
-      session.on('assistant.message_delta', (event) => {
-        if (abortController.signal.aborted) return;
-        const deltaContent = event.data.deltaContent || '';
+      // Stream into the decoration (not the document), then wait for the full
+      // reply; aborting cancels the request at the provider
+      await sendWithAbort(session, templates.prompt, abortController.signal, (deltaContent) => {
         accumulatedText += deltaContent;
         onUpdate(accumulatedText);
       });
 
-      session.on('assistant.message', () => {
-        // Final message received - handled by finally block
-      });
-
-      // Send the prompt and wait
-      await session.sendAndWait({ prompt: action.prompt + (selection ? '\n\n' + selection : '') });
-
     } catch (error: unknown) {
-      if (!abortController.signal.aborted) {
+      if (abortController.signal.aborted) {
+        // Stopped with the preview's Stop button or Escape; nothing is inserted
+        new Notice(action.icon + ' ' + action.name + ' - stopped');
+      } else {
         console.error('Copilot SDK error:', error);
         const message = error instanceof Error ? error.message : 'Unknown error';
         new Notice('Copilot error: ' + message);
@@ -532,15 +1181,6 @@ export default class CopilotPlugin extends Plugin {
       hideSpinner?.();
       this.app.workspace.updateOptions();
 
-      // Clean up session
-      if (session) {
-        try {
-          await session.destroy();
-        } catch (error) {
-          console.error('Error destroying session:', error);
-        }
-      }
-
       // Remove this abort controller from the list
       this.abortControllers = this.abortControllers.filter((ac) => ac !== abortController);
 
@@ -557,44 +1197,418 @@ export default class CopilotPlugin extends Plugin {
             insertAfter: cursorOffsetTo,
           };
 
-          if (action.replaceSelection && selection) {
+          if (action.placement === 'replace' && selection) {
+            // Follow-up instructions go to the same session, which keeps the conversation
+            const activeSession = session;
+            const onRefine = async (instruction: string): Promise<string | null> => {
+              if (!activeSession) return null;
+              try {
+                // Refinements are shown in the diff review, not streamed
+                const response = await activeSession.send(
+                  `Revise your previous output: ${instruction}\n\nReturn only the complete revised text.`,
+                );
+                return response.trim() || null;
+              } catch (error: unknown) {
+                console.error('Copilot SDK error:', error);
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                new Notice('Copilot error: ' + message);
+                return null;
+              }
+            };
+
             // Show diff review and wait for user decision
-            this.pendingDiffReview = true;
-            const decision = await showInlineDiff(
+            const acceptedHunks = await showInlineDiff(
               editorView,
               mappedRange.from,
               mappedRange.to,
               finalText,
+              activeSession ? onRefine : undefined,
             );
-            this.pendingDiffReview = false;
 
-            if (decision === 'keep') {
-              const fromPos = editor.offsetToPos(mappedRange.from);
-              const toPos = editor.offsetToPos(mappedRange.to);
-              editor.replaceRange(finalText, fromPos, toPos);
+            if (acceptedHunks.length > 0) {
+              // Logged as one change covering the reviewed text
+              this.applyActionEdit(editorView, file, action, templates.prompt, [
+                combineChanges(editorView.state.doc, acceptedHunks),
+              ]);
               new Notice(action.icon + ' ' + action.name + ' - done!');
             } else {
               new Notice(action.icon + ' ' + action.name + ' - undone');
             }
           } else {
-            // Insert after selection
-            const insertOffset = mappedRange.insertAfter;
-            const insertPos = editor.offsetToPos(insertOffset);
-            const isLastLine = editor.lastLine() === insertPos.line;
-            const text = this.processText(finalText, selection || '');
-            editor.replaceRange(isLastLine ? '\n' + text : text, {
-              ch: 0,
-              line: insertPos.line + 1,
-            });
-            new Notice(action.icon + ' ' + action.name + ' - done!');
+            // Without a selection, replace falls back to inserting at the cursor
+            const placement = action.placement === 'replace' ? 'append' : action.placement;
+            try {
+              const message = await this.placeActionOutput(
+                editor,
+                editorView,
+                file,
+                action,
+                templates.prompt,
+                placement,
+                finalText,
+                selection,
+                mappedRange,
+              );
+              new Notice(action.icon + ' ' + action.name + ' - ' + message);
+            } catch (error: unknown) {
+              console.error('Failed to place action output:', error);
+              const message = error instanceof Error ? error.message : 'Unknown error';
+              new Notice('Copilot error: ' + message);
+            }
           }
         }
       }
 
+      // Clean up session, kept alive until the review was resolved
+      if (session) {
+        try {
+          await session.destroy();
+        } catch (error) {
+          console.error('Error destroying session:', error);
+        }
+      }
+
       releaseTracker();
     }
   }
 
+  /**
+   * Inserts an action's output at its placement (other than a reviewed
+   * replace). Returns the status shown in the completion notice.
+   */
+  private async placeActionOutput(
+    editor: Editor,
+    editorView: EditorView,
+    file: TFile | null,
+    action: CopilotAction,
+    prompt: string, // Rendered prompt, recorded with the AI edit
+    placement: ActionPlacement,
+    text: string,
+    selection: string,
+    range: { from: number; to: number; insertAfter: number },
+  ): Promise<string> {
+    // Placements that write outside the editor need the note on disk
+    if (!file && (placement === 'new-note' || placement === 'frontmatter')) {
+      await navigator.clipboard.writeText(text);
+      return 'no saved note, copied to clipboard';
+    }
+
+    const docLength = editorView.state.doc.length;
+    switch (placement) {
+      case 'prepend': {
+        const lineStart = editor.posToOffset({ line: editor.offsetToPos(range.from).line, ch: 0 });
+        this.applyActionEdit(editorView, file, action, prompt, [{ from: lineStart, to: lineStart, insert: text + '\n\n' }]);
+        return 'done!';
+      }
+      case 'callout':
+        this.applyActionEdit(editorView, file, action, prompt, [
+          this.getInsertAfterLine(editor, range.insertAfter, '\n' + formatCallout(text, action.name) + '\n'),
+        ]);
+        return 'done!';
+      case 'footnote': {
+        const id = getNextFootnoteId(editor.getValue());
+        this.applyActionEdit(editorView, file, action, prompt, [
+          { from: range.to, to: range.to, insert: `[^${id}]` },
+          { from: docLength, to: docLength, insert: '\n\n' + formatFootnote(id, text) },
+        ]);
+        return 'done!';
+      }
+      case 'new-note': {
+        const note = await this.createActionNote(file as TFile, action, text);
+        const link = this.app.fileManager.generateMarkdownLink(note, (file as TFile).path);
+        this.applyActionEdit(editorView, file, action, prompt, [{ from: range.to, to: range.to, insert: ' ' + link }]);
+        return `created ${note.basename}`;
+      }
+      case 'frontmatter': {
+        const property = action.property?.trim() || getDefaultPropertyName(action.name);
+        await this.app.fileManager.processFrontMatter(file as TFile, (frontmatter: Record<string, unknown>) => {
+          frontmatter[property] = text;
+        });
+        return `set ${property}`;
+      }
+      case 'top': {
+        const { contentStart } = getFrontMatterInfo(editor.getValue());
+        this.applyActionEdit(editorView, file, action, prompt, [{ from: contentStart, to: contentStart, insert: text + '\n\n' }]);
+        return 'done!';
+      }
+      case 'clipboard':
+        await navigator.clipboard.writeText(text);
+        return 'copied to clipboard';
+      default:
+        this.applyActionEdit(editorView, file, action, prompt, [
+          this.getInsertAfterLine(editor, range.insertAfter, this.processText(text, selection)),
+        ]);
+        return 'done!';
+    }
+  }
+
+  /**
+   * An insertion at the start of the line after the one containing `offset`.
+   */
+  private getInsertAfterLine(editor: Editor, offset: number, text: string): AiEditSpec {
+    const insertPos = editor.offsetToPos(offset);
+    if (editor.lastLine() === insertPos.line) {
+      const end = editor.getValue().length;
+      return { from: end, to: end, insert: '\n' + text };
+    }
+    const lineStart = editor.posToOffset({ line: insertPos.line + 1, ch: 0 });
+    return { from: lineStart, to: lineStart, insert: text };
+  }
+
+  /**
+   * Applies changes as one undoable AI edit and records it in the note's AI
+   * edit history. Used for actions and for replies applied from the chat.
+   */
+  applyLoggedAiEdit(
+    editorView: EditorView,
+    file: TFile | null,
+    specs: AiEditSpec[],
+    info: { action: string; model: string; prompt: string },
+  ): void {
+    const edit = applyAiEdit(editorView, specs, { path: file?.path ?? '', ...info });
+    if (file) void this.aiEditLog.add(edit);
+  }
+
+  /** Applies an action's changes; `prompt` is the rendered prompt that was sent. */
+  private applyActionEdit(
+    editorView: EditorView,
+    file: TFile | null,
+    action: CopilotAction,
+    prompt: string,
+    specs: AiEditSpec[],
+  ): void {
+    this.applyLoggedAiEdit(editorView, file, specs, {
+      action: action.name,
+      model: this.getEffectiveModel(action.model ?? ''),
+      prompt,
+    });
+  }
+
+  /**
+   * Creates a note for an action's output next to where new notes go,
+   * named after the source note and the action.
+   */
+  private async createActionNote(source: TFile, action: CopilotAction, text: string): Promise<TFile> {
+    const parent = this.app.fileManager.getNewFileParent(source.path);
+    const baseName = `${source.basename} - ${action.name}`.replace(/[\\/:*?"<>|#^[\]]/g, '');
+    const folder = parent.isRoot() ? '' : parent.path + '/';
+
+    let path = normalizePath(`${folder}${baseName}.md`);
+    for (let n = 2; this.app.vault.getAbstractFileByPath(path); n++) {
+      path = normalizePath(`${folder}${baseName} ${n}.md`);
+    }
+    return this.app.vault.create(path, text + '\n');
+  }
+
+  // ── Batch Runs ───────────────────────────────────────────────────────────────
+
+  private openBatchSetup(scope: BatchScope): void {
+    if (this.activeBatch && !this.activeBatch.runner.isFinished()) {
+      new Notice('A batch run is already in progress');
+      this.activeBatch.modal.open();
+      return;
+    }
+    new BatchSetupModal(this.app, this.settings.actions, scope, (setup) => {
+      this.askActionParameters(setup.action, (values) => void this.runBatch(setup, values));
+    }).open();
+  }
+
+  /**
+   * Runs an action over the notes of a batch, then writes the summary note or
+   * offers to review the changes, depending on the chosen output.
+   */
+  private async runBatch(setup: BatchSetup, parameterValues: Record<string, string>): Promise<void> {
+    const { action, output } = setup;
+    const modelError = this.getModelError(this.resolveModel(action.model ?? ''));
+    if (modelError) {
+      new Notice(modelError);
+      return;
+    }
+    const parameterNames = (action.parameters ?? []).map((p) => p.name);
+    const templateErrors = [
+      ...validateTemplate(action.system, parameterNames),
+      ...validateTemplate(action.prompt, parameterNames),
+    ];
+    if (templateErrors.length > 0) {
+      new Notice(`Invalid action template: ${action.name} - ${templateErrors.join('; ')}`, 8000);
+      return;
+    }
+
+    const processItem = async (item: BatchItem, signal: AbortSignal) => {
+      const body = getNoteBody(await this.app.vault.cachedRead(item.file));
+      if (!body.text.trim()) {
+        item.status = 'skipped';
+        return;
+      }
+      item.input = body.text;
+      const result = await this.runActionOnText(action, item.file, body.text, signal, parameterValues);
+      item.prompt = result.prompt;
+      item.output = result.output;
+      if (output === 'review') {
+        if (item.output === body.text.trim()) item.status = 'skipped';
+        // Keep the note's trailing newline out of the diff
+        else if (body.text.endsWith('\n')) item.output += '\n';
+      }
+    };
+
+    const runner = new BatchRunner(setup.files, processItem, this.settings.batchConcurrency);
+    const modal = new BatchProgressModal(
+      this.app,
+      `${action.icon} ${action.name} — ${setup.files.length} notes`,
+      runner,
+      {},
+    );
+    this.activeBatch = { runner, modal };
+    this.abortControllers.push(runner.abortController);
+
+    this.batchStatusEl?.remove();
+    const statusEl = this.addStatusBarItem();
+    statusEl.addClass('mod-clickable');
+    statusEl.addEventListener('click', () => modal.open());
+    this.batchStatusEl = statusEl;
+    const updateStatus = () => {
+      const counts = runner.countByStatus();
+      const completed = runner.items.length - counts.pending - counts.running;
+      statusEl.setText(`${action.icon} ${completed}/${runner.items.length}${runner.isPaused() ? ' (paused)' : ''}`);
+    };
+    const unsubscribe = runner.onChange(updateStatus);
+    updateStatus();
+
+    modal.open();
+    await runner.run();
+
+    unsubscribe();
+    statusEl.remove();
+    if (this.batchStatusEl === statusEl) this.batchStatusEl = null;
+    this.abortControllers = this.abortControllers.filter((ac) => ac !== runner.abortController);
+
+    if (output === 'summary') {
+      try {
+        const summary = await writeBatchSummary(this.app, action, runner.items, this.settings.batchSummaryFolder);
+        modal.setCallbacks({ onOpenSummary: () => void this.app.workspace.getLeaf('tab').openFile(summary) });
+        new Notice(`${action.icon} ${action.name} - summary written to ${summary.basename}`);
+      } catch (error: unknown) {
+        console.error('Failed to write batch summary:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        new Notice('Failed to write summary: ' + message);
+      }
+    } else {
+      modal.setCallbacks({ onReview: () => void this.reviewBatchResults(action, runner.items) });
+      new Notice(`${action.icon} ${action.name} - ${runner.countByStatus().done} notes ready to review`);
+    }
+  }
+
+  /**
+   * Opens each changed note in turn and shows its result as a diff review;
+   * accepted changes are applied as AI edits before moving to the next note.
+   */
+  private async reviewBatchResults(action: CopilotAction, items: BatchItem[]): Promise<void> {
+    const pending = items.filter((i) => i.status === 'done' && i.input !== undefined && i.output);
+    const leaf = this.app.workspace.getLeaf(false);
+
+    for (const [index, item] of pending.entries()) {
+      await leaf.openFile(item.file);
+      const view = leaf.view;
+      if (!(view instanceof MarkdownView)) break;
+
+      // The note may have changed since the batch ran
+      // @ts-expect-error - editor.cm is not typed in Obsidian's API
+      const editorView: EditorView = view.editor.cm;
+      const from = editorView.state.doc.toString().indexOf(item.input as string);
+      if (from === -1) {
+        new Notice(`${item.file.basename} changed since the batch ran - skipped`);
+        continue;
+      }
+
+      new Notice(`Reviewing ${index + 1} of ${pending.length}: ${item.file.basename}`);
+      const to = from + (item.input as string).length;
+      const acceptedHunks = await showInlineDiff(editorView, from, to, item.output as string);
+      if (acceptedHunks.length > 0) {
+        this.applyActionEdit(editorView, item.file, action, item.prompt ?? '', [
+          combineChanges(editorView.state.doc, acceptedHunks),
+        ]);
+      }
+    }
+  }
+
+  /**
+   * Runs an action on a piece of text from a note in an isolated session and
+   * returns the rendered prompt and the trimmed response. The text takes the
+   * place of the selection in the action's templates. Aborting the signal
+   * aborts the request.
+   */
+  private async runActionOnText(
+    action: CopilotAction,
+    file: TFile,
+    text: string,
+    signal: AbortSignal,
+    parameterValues: Record<string, string>,
+  ): Promise<{ prompt: string; output: string }> {
+    const templates = await renderActionTemplates(this.app, action, {
+      selection: text,
+      file,
+      cursorOffset: 0,
+      parameters: parameterValues,
+    });
+    const session = await this.createModelSession(this.getEffectiveModel(action.model ?? ''), templates.system);
+
+    try {
+      const response = await sendWithAbort(session, templates.prompt, signal);
+      return { prompt: templates.prompt, output: response.trim() };
+    } finally {
+      try {
+        await session.destroy();
+      } catch (error) {
+        console.error('Error destroying session:', error);
+      }
+    }
+  }
+
+  private isGhostTextEnabledFor(filePath: string): boolean {
+    if (!this.settings.ghostTextEnabled) return false;
+    if (isPathInFolders(filePath, this.settings.ghostTextExcludeFolders)) return false;
+    const included = this.settings.ghostTextIncludeFolders;
+    return included.length === 0 || isPathInFolders(filePath, included);
+  }
+
+  /**
+   * Requests a short continuation for the text before the cursor, in an
+   * isolated session that is aborted when the suggestion goes stale.
+   */
+  private async completeGhostText(request: GhostTextRequest, signal: AbortSignal): Promise<string | null> {
+    const modelRef = this.getEffectiveModel('');
+    if (this.getModelError(modelRef)) return null;
+
+    const session = await this.createModelSession(modelRef, GHOST_TEXT_SYSTEM);
+    const abortSession = () => {
+      void session.abort().catch(() => undefined);
+    };
+    signal.addEventListener('abort', abortSession);
+
+    try {
+      if (signal.aborted) return null;
+      const response = await session.send(
+        [
+          `Note title: ${request.title}`,
+          `Text before the cursor:\n${request.before}`,
+          request.after.trim() ? `Text after the cursor:\n${request.after}` : '',
+          'Continuation:',
+        ].filter(Boolean).join('\n\n'),
+      );
+
+      // Keep a single paragraph; suggestions are meant to be short
+      const text = response.split(/\n\s*\n/)[0].trimEnd();
+      return text.trim() ? text : null;
+    } finally {
+      signal.removeEventListener('abort', abortSession);
+      try {
+        await session.destroy();
+      } catch (error) {
+        console.error('Error destroying session:', error);
+      }
+    }
+  }
+
   private processText(text: string, selectedText: string): string {
     if (!text.trim()) return '';
     const cleanText = text.trim();
@@ -602,7 +1616,15 @@ export default class CopilotPlugin extends Plugin {
   }
 
   async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    // Chat settings share data.json but are owned by the chat view
+    const { chatSettings: _chatSettings, ...data } = (await this.loadData()) ?? {};
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+
+    // Actions saved before placements had a replace/append flag
+    for (const action of this.settings.actions as (CopilotAction & { replaceSelection?: boolean })[]) {
+      if (!action.placement) action.placement = action.replaceSelection ? 'replace' : 'append';
+      delete action.replaceSelection;
+    }
 
     // Merge in any new built-in actions that don't exist in saved settings
     const savedNames = new Set(this.settings.actions.map((a) => a.name));
@@ -614,7 +1636,10 @@ export default class CopilotPlugin extends Plugin {
   }
 
   async saveSettings() {
-    await this.saveData(this.settings);
+    // Preserve the chat view's settings, which are saved separately
+    const data = await this.loadData();
+    await this.saveData({ ...this.settings, chatSettings: data?.chatSettings });
+    this.updateConnectionStatus();
   }
 }
 
@@ -622,43 +1647,31 @@ export default class CopilotPlugin extends Plugin {
 
 class CopilotSettingTab extends PluginSettingTab {
   plugin: CopilotPlugin;
-  private availableModels: { id: string; name: string }[] = [];
 
   constructor(app: App, plugin: CopilotPlugin) {
     super(app, plugin);
     this.plugin = plugin;
   }
 
-  private async fetchModels(): Promise<void> {
-    if (!this.plugin.copilotClient) return;
-    try {
-      const models = await this.plugin.copilotClient.listModels();
-      this.availableModels = models
-        .filter((m) => !m.policy || m.policy.state !== 'disabled')
-        .map((m) => ({ id: m.id, name: m.name }));
-    } catch (e) {
-      console.error('Failed to fetch available models:', e);
-    }
+  private get availableModels(): ModelInfo[] {
+    return this.plugin.availableModels;
+  }
+
+  private showTemplateErrors(el: HTMLElement, template: string, parameterNames: string[]): void {
+    const errors = validateTemplate(template, parameterNames);
+    el.setText(errors.join('\n'));
+    el.toggle(errors.length > 0);
   }
 
   private addModelDropdown(
     setting: Setting,
     currentValue: string,
-    includeDefault: boolean,
+    emptyOption: string, // Label of the '' option
     onChange: (value: string) => Promise<void>,
   ): void {
     setting.addDropdown((dropdown) => {
-      if (includeDefault) {
-        dropdown.addOption('', 'Use default model');
-      }
-      for (const model of this.availableModels) {
-        dropdown.addOption(model.id, model.name);
-      }
-      // Preserve current value even if not in the fetched list
-      if (currentValue && !this.availableModels.some((m) => m.id === currentValue)) {
-        dropdown.addOption(currentValue, currentValue);
-      }
-      dropdown.setValue(currentValue);
+      // Preserves the current value even if it isn't in the fetched list
+      populateModelSelect(dropdown.selectEl, this.availableModels, currentValue, emptyOption);
       dropdown.onChange(onChange);
     });
   }
@@ -667,38 +1680,379 @@ class CopilotSettingTab extends PluginSettingTab {
     const { containerEl } = this;
     containerEl.empty();
 
-    // Fetch models asynchronously, then re-render to populate dropdowns
-    if (this.availableModels.length === 0) {
-      void this.fetchModels().then(() => {
-        if (this.availableModels.length > 0) this.display();
-      });
+    // Fetch models asynchronously (once), then re-render to populate dropdowns
+    if (!this.plugin.modelRegistry.isLoaded()) {
+      void this.plugin.refreshModels().then(() => this.display());
+    }
+
+    new Setting(containerEl)
+      .setName('Providers')
+      .setDesc('Where models come from. Models of every enabled provider are listed in the model menus.')
+      .setHeading();
+
+    new Setting(containerEl)
+      .setName('GitHub Copilot')
+      .setDesc('Use the models of your GitHub Copilot subscription through the Copilot CLI.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.copilotEnabled).onChange(async (value) => {
+          this.plugin.settings.copilotEnabled = value;
+          await this.plugin.saveSettings();
+          await this.plugin.connectProviders();
+          this.display();
+        })
+      );
+
+    if (this.plugin.settings.copilotEnabled) {
+      new Setting(containerEl)
+        .setName('Copilot CLI path')
+        .setDesc('Full path to the copilot executable. Leave empty to look in the usual install locations and on PATH.')
+        .addText((text) =>
+          text
+            .setPlaceholder('/usr/local/bin/copilot')
+            .setValue(this.plugin.settings.copilotCliPath)
+            .onChange(async (value) => {
+              this.plugin.settings.copilotCliPath = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName('Copilot CLI arguments')
+        .setDesc('Extra arguments passed to the CLI when it starts. Reconnect to apply changes to the path or arguments.')
+        .addText((text) =>
+          text
+            .setValue(this.plugin.settings.copilotCliArgs)
+            .onChange(async (value) => {
+              this.plugin.settings.copilotCliArgs = value;
+              await this.plugin.saveSettings();
+            })
+        )
+        .addButton((btn) =>
+          btn.setButtonText('Reconnect').onClick(async () => {
+            await this.plugin.reconnectCopilot();
+            this.display();
+          })
+        )
+        .addExtraButton((btn) =>
+          btn
+            .setIcon('stethoscope')
+            .setTooltip('Connection diagnostics')
+            .onClick(() => this.plugin.openConnectionDiagnostics())
+        );
+    }
+
+    new Setting(containerEl)
+      .setName('OpenAI-compatible server')
+      .setDesc('Use models from a server with an OpenAI-compatible API, such as Ollama, llama.cpp or LM Studio.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.openAiEnabled).onChange(async (value) => {
+          this.plugin.settings.openAiEnabled = value;
+          await this.plugin.saveSettings();
+          await this.plugin.connectProviders();
+          this.display();
+        })
+      );
+
+    if (this.plugin.settings.openAiEnabled) {
+      new Setting(containerEl)
+        .setName('Server URL')
+        .setDesc('Base URL of the API, usually ending in /v1.')
+        .addText((text) =>
+          text
+            .setPlaceholder('http://localhost:11434/v1')
+            .setValue(this.plugin.settings.openAiBaseUrl)
+            .onChange(async (value) => {
+              this.plugin.settings.openAiBaseUrl = value.trim();
+              await this.plugin.saveSettings();
+            })
+        )
+        .addButton((btn) =>
+          btn.setButtonText('Refresh models').onClick(async () => {
+            await this.plugin.refreshModels();
+            new Notice(`${this.availableModels.length} models available`);
+            this.display();
+          })
+        );
+
+      new Setting(containerEl)
+        .setName('API key')
+        .setDesc('Sent as a bearer token. Leave empty for local servers that don\'t need one.')
+        .addText((text) => {
+          text.inputEl.type = 'password';
+          text
+            .setValue(this.plugin.settings.openAiApiKey)
+            .onChange(async (value) => {
+              this.plugin.settings.openAiApiKey = value.trim();
+              await this.plugin.saveSettings();
+            });
+        });
+
+      new Setting(containerEl)
+        .setName('Display name')
+        .setDesc('Shown after the server\'s model names in the model menus.')
+        .addText((text) =>
+          text
+            .setPlaceholder('Local')
+            .setValue(this.plugin.settings.openAiName)
+            .onChange(async (value) => {
+              this.plugin.settings.openAiName = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
     }
 
     // Default model setting
     const defaultModelSetting = new Setting(containerEl)
       .setName('Default model')
-      .setDesc('Model to use for requests when no per-action override is set');
+      .setDesc('Model to use for requests when no per-action override is set. Unavailable models fall back to this one, and this one to the first included model.');
     this.addModelDropdown(
       defaultModelSetting,
       this.plugin.settings.defaultModel,
-      false,
+      'Automatic (first included model)',
       async (value) => {
-        this.plugin.settings.defaultModel = value || 'gpt-4o';
+        this.plugin.settings.defaultModel = value;
         await this.plugin.saveSettings();
       },
     );
+    defaultModelSetting.addExtraButton((btn) =>
+      btn
+        .setIcon('refresh-cw')
+        .setTooltip('Refresh models')
+        .onClick(async () => {
+          await this.plugin.refreshModels();
+          this.display();
+        })
+    );
+
+    new Setting(containerEl)
+      .setName('Chat history')
+      .setDesc('How earlier messages are carried into a new chat session, e.g. after restarting Obsidian or changing model.')
+      .setHeading();
+
+    new Setting(containerEl)
+      .setName('History window')
+      .setDesc('Number of most recent messages replayed into a new session. Set to 0 to start sessions without history.')
+      .addText((text) => {
+        text.inputEl.type = 'number';
+        text.inputEl.min = '0';
+        text
+          .setValue(String(this.plugin.settings.chatHistoryWindow))
+          .onChange(async (value) => {
+            const parsed = parseInt(value, 10);
+            this.plugin.settings.chatHistoryWindow = Number.isNaN(parsed) ? 0 : Math.max(0, parsed);
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Summarize older messages')
+      .setDesc('Summarize messages outside the history window instead of dropping them. Uses one extra request when a session is created.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.chatSummarizeOlderHistory).onChange(async (value) => {
+          this.plugin.settings.chatSummarizeOlderHistory = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Chat export')
+      .setDesc('How the "Export conversation" command writes a chat thread to a note.')
+      .setHeading();
+
+    new Setting(containerEl)
+      .setName('Format')
+      .setDesc('Callouts and headings label each message by role; a transcript is plain bold-labelled paragraphs.')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('callouts', 'Callouts')
+          .addOption('headings', 'Headings')
+          .addOption('transcript', 'Plain transcript')
+          .setValue(this.plugin.settings.exportFormat)
+          .onChange(async (value) => {
+            this.plugin.settings.exportFormat = value as ChatExportFormat;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Folder')
+      .setDesc('Vault folder for exported conversations. Leave empty for the vault root.')
+      .addText((text) =>
+        text
+          .setPlaceholder('Copilot/Conversations')
+          .setValue(this.plugin.settings.exportFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.exportFolder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Link to context note')
+      .setDesc('Link the exported note back to the note the conversation was about.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.exportLinkContextFile).onChange(async (value) => {
+          this.plugin.settings.exportLinkContextFile = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Vault search')
+      .setDesc('Vault mode in the chat searches a local index of your notes and adds the best-matching sections to each question.')
+      .setHeading();
+
+    new Setting(containerEl)
+      .setName('Excerpts per question')
+      .setDesc('Maximum number of note sections added to a question in vault mode.')
+      .addText((text) => {
+        text.inputEl.type = 'number';
+        text.inputEl.min = '1';
+        text
+          .setValue(String(this.plugin.settings.vaultSearchResults))
+          .onChange(async (value) => {
+            const parsed = parseInt(value, 10);
+            this.plugin.settings.vaultSearchResults = Number.isNaN(parsed) ? 5 : Math.max(1, parsed);
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Search index')
+      .setDesc(this.plugin.vaultIndex.isLoaded()
+        ? `${this.plugin.vaultIndex.getFileCount()} notes indexed. The index updates as notes change.`
+        : 'The index is built the first time vault mode is used.')
+      .addButton((btn) =>
+        btn.setButtonText('Rebuild index').onClick(async () => {
+          btn.setDisabled(true).setButtonText('Indexing...');
+          await this.plugin.vaultIndex.rebuild();
+          new Notice(`Indexed ${this.plugin.vaultIndex.getFileCount()} notes`);
+          this.display();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Autocomplete')
+      .setDesc('Dimmed suggestions after a pause in typing. Press Tab to accept a suggestion, Ctrl+→ to accept it word by word, or keep typing to dismiss it.')
+      .setHeading();
+
+    new Setting(containerEl)
+      .setName('Enable autocomplete')
+      .setDesc('Each suggestion is one request, based on the paragraph being written and the note title.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.ghostTextEnabled).onChange(async (value) => {
+          this.plugin.settings.ghostTextEnabled = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName('Typing pause')
+      .setDesc('Milliseconds without typing before a suggestion is requested.')
+      .addText((text) => {
+        text.inputEl.type = 'number';
+        text.inputEl.min = '200';
+        text
+          .setValue(String(this.plugin.settings.ghostTextDelay))
+          .onChange(async (value) => {
+            const parsed = parseInt(value, 10);
+            this.plugin.settings.ghostTextDelay = Number.isNaN(parsed) ? 750 : Math.max(200, parsed);
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Enabled folders')
+      .setDesc('Only suggest in notes inside these folders, one per line. Leave empty for the whole vault.')
+      .addTextArea((text) =>
+        text
+          .setPlaceholder('Writing\nJournal')
+          .setValue(this.plugin.settings.ghostTextIncludeFolders.join('\n'))
+          .onChange(async (value) => {
+            this.plugin.settings.ghostTextIncludeFolders = parseFolderList(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Disabled folders')
+      .setDesc('Never suggest in notes inside these folders, one per line. Takes precedence over enabled folders.')
+      .addTextArea((text) =>
+        text
+          .setPlaceholder('Templates\nArchive')
+          .setValue(this.plugin.settings.ghostTextExcludeFolders.join('\n'))
+          .onChange(async (value) => {
+            this.plugin.settings.ghostTextExcludeFolders = parseFolderList(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Batch runs')
+      .setDesc('Running an action on a folder, tag, or search with "Run action on multiple notes".')
+      .setHeading();
+
+    new Setting(containerEl)
+      .setName('Notes at once')
+      .setDesc('How many notes are sent to Copilot at the same time.')
+      .addText((text) => {
+        text.inputEl.type = 'number';
+        text.inputEl.min = '1';
+        text.inputEl.max = '10';
+        text
+          .setValue(String(this.plugin.settings.batchConcurrency))
+          .onChange(async (value) => {
+            const parsed = parseInt(value, 10);
+            this.plugin.settings.batchConcurrency = Number.isNaN(parsed) ? 3 : Math.min(10, Math.max(1, parsed));
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Summary folder')
+      .setDesc('Vault folder for batch summary notes. Leave empty for the vault root.')
+      .addText((text) =>
+        text
+          .setPlaceholder('Copilot/Batches')
+          .setValue(this.plugin.settings.batchSummaryFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.batchSummaryFolder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
 
     new Setting(containerEl)
       .setName('Actions')
       .setDesc('Configure the actions available in the action palette. Each action has a system prompt and a user prompt.')
       .setHeading();
 
+    const variablesEl = containerEl.createEl('details', { cls: 'copilot-template-help' });
+    variablesEl.createEl('summary', { text: 'Template variables' });
+    variablesEl.createDiv({
+      text: 'Prompts can use these placeholders, filled in from the note the action runs in. Use {{#if selection}}...{{else}}...{{/if}} for text that depends on whether a variable is empty.',
+    });
+    const variablesListEl = variablesEl.createEl('ul');
+    for (const variable of TEMPLATE_VARIABLES) {
+      const itemEl = variablesListEl.createEl('li');
+      itemEl.createEl('code', { text: `{{${variable.name}}}` });
+      itemEl.appendText(` — ${variable.description}`);
+    }
+
     this.plugin.settings.actions.forEach((action, index) => {
       const wrapper = containerEl.createDiv({ cls: 'copilot-action-block' });
 
       new Setting(wrapper)
         .setName(action.icon + ' ' + action.name)
         .setHeading()
+        .addButton((btn) =>
+          btn
+            .setButtonText('Preview')
+            .setTooltip('Show the prompts as they would be sent from the active note')
+            .onClick(() => {
+              const current = this.plugin.settings.actions[index];
+              new TemplatePreviewModal(this.app, current, this.plugin.getActionParameterValues(current)).open();
+            })
+        )
         .addButton((btn) =>
           btn
             .setButtonText('Delete')
@@ -729,14 +2083,33 @@ class CopilotSettingTab extends PluginSettingTab {
         );
 
       new Setting(wrapper)
-        .setName('Replace selection')
-        .setDesc('If enabled, replaces selected text. If disabled, adds result after selection.')
-        .addToggle((toggle) =>
-          toggle.setValue(action.replaceSelection ?? false).onChange(async (value) => {
-            this.plugin.settings.actions[index].replaceSelection = value;
+        .setName('Placement')
+        .setDesc(ACTION_PLACEMENTS.find((p) => p.value === action.placement)?.description ?? '')
+        .addDropdown((dropdown) => {
+          for (const placement of ACTION_PLACEMENTS) {
+            dropdown.addOption(placement.value, placement.label);
+          }
+          dropdown.setValue(action.placement).onChange(async (value) => {
+            this.plugin.settings.actions[index].placement = value as ActionPlacement;
             await this.plugin.saveSettings();
-          })
-        );
+            this.display();
+          });
+        });
+
+      if (action.placement === 'frontmatter') {
+        new Setting(wrapper)
+          .setName('Property')
+          .setDesc('Frontmatter property the output is written to.')
+          .addText((text) =>
+            text
+              .setPlaceholder(getDefaultPropertyName(action.name))
+              .setValue(action.property ?? '')
+              .onChange(async (value) => {
+                this.plugin.settings.actions[index].property = value.trim() || undefined;
+                await this.plugin.saveSettings();
+              })
+          );
+      }
 
       const actionModelSetting = new Setting(wrapper)
         .setName('Model')
@@ -744,34 +2117,48 @@ class CopilotSettingTab extends PluginSettingTab {
       this.addModelDropdown(
         actionModelSetting,
         action.model || '',
-        true,
+        'Use default model',
         async (value) => {
           this.plugin.settings.actions[index].model = value || undefined;
           await this.plugin.saveSettings();
         },
       );
 
-      new Setting(wrapper)
-        .setName('System prompt')
-        .addTextArea((ta) => {
-          ta.setValue(action.system).onChange(async (value) => {
-            this.plugin.settings.actions[index].system = value;
-            await this.plugin.saveSettings();
-          });
-          ta.inputEl.rows = 3;
-          ta.inputEl.addClass('copilot-textarea-full-width');
+      const getParameterNames = () => (this.plugin.settings.actions[index].parameters ?? []).map((p) => p.name);
+
+      const systemSetting = new Setting(wrapper).setName('System prompt');
+      const systemErrorsEl = wrapper.createDiv({ cls: 'copilot-template-errors' });
+      systemSetting.addTextArea((ta) => {
+        ta.setValue(action.system).onChange(async (value) => {
+          this.plugin.settings.actions[index].system = value;
+          this.showTemplateErrors(systemErrorsEl, value, getParameterNames());
+          await this.plugin.saveSettings();
         });
+        ta.inputEl.rows = 3;
+        ta.inputEl.addClass('copilot-textarea-full-width');
+      });
+      this.showTemplateErrors(systemErrorsEl, action.system, getParameterNames());
 
-      new Setting(wrapper)
+      const promptSetting = new Setting(wrapper)
         .setName('Prompt')
-        .addTextArea((ta) => {
-          ta.setValue(action.prompt).onChange(async (value) => {
-            this.plugin.settings.actions[index].prompt = value;
-            await this.plugin.saveSettings();
-          });
-          ta.inputEl.rows = 3;
-          ta.inputEl.addClass('copilot-textarea-full-width');
+        .setDesc('Without {{selection}}, the selection is added after the prompt.');
+      const promptErrorsEl = wrapper.createDiv({ cls: 'copilot-template-errors' });
+      promptSetting.addTextArea((ta) => {
+        ta.setValue(action.prompt).onChange(async (value) => {
+          this.plugin.settings.actions[index].prompt = value;
+          this.showTemplateErrors(promptErrorsEl, value, getParameterNames());
+          await this.plugin.saveSettings();
         });
+        ta.inputEl.rows = 3;
+        ta.inputEl.addClass('copilot-textarea-full-width');
+      });
+      this.showTemplateErrors(promptErrorsEl, action.prompt, getParameterNames());
+
+      this.displayActionParameters(wrapper, index, () => {
+        const current = this.plugin.settings.actions[index];
+        this.showTemplateErrors(systemErrorsEl, current.system, getParameterNames());
+        this.showTemplateErrors(promptErrorsEl, current.prompt, getParameterNames());
+      });
     });
 
     new Setting(containerEl).addButton((btn) =>
@@ -784,11 +2171,110 @@ class CopilotSettingTab extends PluginSettingTab {
             icon: '🧠',
             system: 'You are an AI assistant that follows instruction extremely well. Help as much as you can.',
             prompt: '',
-            replaceSelection: false,
+            placement: 'append',
           });
           await this.plugin.saveSettings();
           this.display();
         })
     );
   }
+
+  /**
+   * The parameters of an action: one row each with its name, label, type and
+   * options or default. `onNamesChange` re-checks the prompts when a name
+   * changes.
+   */
+  private displayActionParameters(containerEl: HTMLElement, index: number, onNamesChange: () => void): void {
+    const action = this.plugin.settings.actions[index];
+    const parameters = action.parameters ?? [];
+
+    new Setting(containerEl)
+      .setName('Parameters')
+      .setDesc('Asked for each time the action runs. Use them in the prompts as {{param.<name>}}.')
+      .addButton((btn) =>
+        btn.setButtonText('Add parameter').onClick(async () => {
+          action.parameters = [...parameters, { name: `param${parameters.length + 1}`, type: 'text' }];
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    const errorsEl = containerEl.createDiv({ cls: 'copilot-template-errors' });
+    const showErrors = () => {
+      const errors = validateParameters(parameters);
+      errorsEl.setText(errors.join('\n'));
+      errorsEl.toggle(errors.length > 0);
+    };
+
+    parameters.forEach((parameter, parameterIndex) => {
+      const setting = new Setting(containerEl).setClass('copilot-action-parameter');
+      setting
+        .addText((text) =>
+          text
+            .setPlaceholder('Name')
+            .setValue(parameter.name)
+            .onChange(async (value) => {
+              parameter.name = value.trim();
+              showErrors();
+              onNamesChange();
+              await this.plugin.saveSettings();
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder('Label')
+            .setValue(parameter.label ?? '')
+            .onChange(async (value) => {
+              parameter.label = value.trim() || undefined;
+              await this.plugin.saveSettings();
+            })
+        )
+        .addDropdown((dropdown) => {
+          for (const type of ACTION_PARAMETER_TYPES) dropdown.addOption(type.value, type.label);
+          dropdown.setValue(parameter.type).onChange(async (value) => {
+            parameter.type = value as ActionParameterType;
+            await this.plugin.saveSettings();
+            this.display();
+          });
+        });
+
+      if (parameter.type === 'choice') {
+        setting.addText((text) =>
+          text
+            .setPlaceholder('Options, comma-separated')
+            .setValue((parameter.options ?? []).join(', '))
+            .onChange(async (value) => {
+              parameter.options = value.split(',').map((option) => option.trim()).filter(Boolean);
+              showErrors();
+              await this.plugin.saveSettings();
+            })
+        );
+      } else {
+        setting.addText((text) => {
+          if (parameter.type === 'number') text.inputEl.type = 'number';
+          text
+            .setPlaceholder('Default')
+            .setValue(parameter.default ?? '')
+            .onChange(async (value) => {
+              parameter.default = value.trim() || undefined;
+              await this.plugin.saveSettings();
+            });
+        });
+      }
+
+      setting.addExtraButton((btn) =>
+        btn
+          .setIcon('trash')
+          .setTooltip('Remove parameter')
+          .onClick(async () => {
+            parameters.splice(parameterIndex, 1);
+            if (parameters.length === 0) action.parameters = undefined;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+    });
+
+    showErrors();
+  }
 }
@@ -0,0 +1,552 @@
+import { CopilotClient, CopilotSession } from '@github/copilot-sdk';
+import { requestUrl } from 'obsidian';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { existsSync } from 'fs';
+
+// ── Model Providers ────────────────────────────────────────────────────────────
+//
+// Actions, chat and autocomplete talk to models through a `ModelProvider`
+// instead of the Copilot SDK directly. Models are named by a model reference:
+// the provider's model id prefixed with the provider, e.g. "openai:llama3.1:8b".
+// Copilot models keep their plain id, so settings saved before providers
+// existed keep working.
+
+export type ProviderId = 'copilot' | 'openai';
+
+export type ModelPolicyState = 'enabled' | 'disabled' | 'unconfigured';
+
+export interface ProviderModel {
+  id: string; // Model id as known to the provider
+  name: string;
+  // Capabilities, where the provider reports them
+  contextWindow?: number;
+  vision?: boolean;
+  tools?: boolean;
+  policy?: ModelPolicyState;
+  premiumMultiplier?: number;
+}
+
+export interface ProviderSessionOptions {
+  model: string; // Model id as known to the provider; empty for the provider's default
+  systemMessage: string;
+  streaming?: boolean;
+}
+
+/**
+ * A conversation with a model. Each `send` continues the conversation of the
+ * previous ones.
+ */
+export interface ProviderSession {
+  /** Sends a prompt and resolves with the full reply; `onDelta` receives it as it streams. */
+  send(prompt: string, onDelta?: (delta: string) => void): Promise<string>;
+  /** Stops the reply in progress. */
+  abort(): Promise<void>;
+  destroy(): Promise<void>;
+}
+
+export interface ModelProvider {
+  readonly id: ProviderId;
+  readonly name: string;
+  isReady(): boolean;
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  listModels(): Promise<ProviderModel[]>;
+  createSession(options: ProviderSessionOptions): Promise<ProviderSession>;
+}
+
+const PROVIDER_IDS: ProviderId[] = ['copilot', 'openai'];
+
+/**
+ * Splits a model reference into its provider and the provider's model id.
+ */
+export function parseModelRef(ref: string): { provider: ProviderId; model: string } {
+  const separator = ref.indexOf(':');
+  const prefix = ref.slice(0, separator) as ProviderId;
+  if (separator > 0 && PROVIDER_IDS.includes(prefix)) {
+    return { provider: prefix, model: ref.slice(separator + 1) };
+  }
+  return { provider: 'copilot', model: ref };
+}
+
+export function formatModelRef(provider: ProviderId, model: string): string {
+  return provider === 'copilot' ? model : `${provider}:${model}`;
+}
+
+/**
+ * Sends a prompt that `signal` can cancel: aborting stops the reply in
+ * progress at the provider and rejects right away, without waiting for the
+ * provider to wind down. Deltas arriving after the abort are dropped.
+ */
+export function sendWithAbort(
+  session: ProviderSession,
+  prompt: string,
+  signal: AbortSignal,
+  onDelta?: (delta: string) => void,
+): Promise<string> {
+  if (signal.aborted) return Promise.reject(new Error('Cancelled'));
+
+  return new Promise<string>((resolve, reject) => {
+    const onAbort = () => {
+      void session.abort().catch(() => undefined);
+      reject(new Error('Cancelled'));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    session
+      .send(prompt, (delta) => {
+        if (!signal.aborted) onDelta?.(delta);
+      })
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+// ── GitHub Copilot CLI ─────────────────────────────────────────────────────────
+
+const execAsync = promisify(exec);
+
+/**
+ * Finds the Copilot CLI: the configured path if set, otherwise the usual
+ * install locations, then PATH. Each step is reported to `log`.
+ */
+async function getCopilotCliPath(configuredPath: string, log: (step: string) => void): Promise<string | null> {
+  if (configuredPath) {
+    const found = existsSync(configuredPath);
+    log(`Configured path ${configuredPath}: ${found ? 'found' : 'not found'}`);
+    return found ? configuredPath : null;
+  }
+
+  const isWindows = process.platform === 'win32';
+
+  // Platform-specific paths to check
+  const knownPaths = isWindows
+    ? [
+        process.env.LOCALAPPDATA && `${process.env.LOCALAPPDATA}\\Microsoft\\WinGet\\Packages\\GitHub.Copilot_Microsoft.Winget.Source_8wekyb3d8bbwe\\copilot.exe`,
+        process.env.APPDATA && `${process.env.APPDATA}\\npm\\copilot.cmd`,
+        process.env.USERPROFILE && `${process.env.USERPROFILE}\\.local\\bin\\copilot.exe`,
+      ]
+    : [
+        '/opt/homebrew/bin/copilot',
+        '/usr/local/bin/copilot',
+        process.env.HOME && `${process.env.HOME}/.local/bin/copilot`,
+      ];
+
+  // Check known paths first
+  for (const path of knownPaths.filter(Boolean) as string[]) {
+    if (existsSync(path)) {
+      log(`${path}: found`);
+      return path;
+    }
+    log(`${path}: not found`);
+  }
+
+  // Fallback to PATH lookup
+  const pathCommand = isWindows ? 'where copilot' : 'which copilot';
+  try {
+    const { stdout } = await execAsync(pathCommand);
+    const path = stdout.trim().split(/\r?\n/)[0];
+    if (path && existsSync(path)) {
+      log(`${pathCommand}: ${path}`);
+      return path;
+    }
+    log(`${pathCommand}: no result`);
+  } catch (error) {
+    log(`${pathCommand}: not found in PATH`);
+  }
+
+  return null;
+}
+
+/**
+ * Splits extra CLI arguments on spaces, keeping quoted arguments together.
+ */
+export function parseCliArgs(value: string): string[] {
+  return (value.match(/"[^"]*"|'[^']*'|\S+/g) ?? []).map((arg) => arg.replace(/^(["'])(.*)\1$/, '$2'));
+}
+
+class CopilotProviderSession implements ProviderSession {
+  private onDelta: ((delta: string) => void) | null = null;
+
+  constructor(private session: CopilotSession) {
+    // One handler per session, forwarding to the current send's callback
+    session.on('assistant.message_delta', (event) => {
+      this.onDelta?.(event.data.deltaContent || '');
+    });
+  }
+
+  async send(prompt: string, onDelta?: (delta: string) => void): Promise<string> {
+    this.onDelta = onDelta ?? null;
+    try {
+      const response = await this.session.sendAndWait({ prompt });
+      return response?.data.content ?? '';
+    } finally {
+      this.onDelta = null;
+    }
+  }
+
+  abort(): Promise<void> {
+    return this.session.abort();
+  }
+
+  destroy(): Promise<void> {
+    return this.session.destroy();
+  }
+}
+
+export interface CopilotCliConfig {
+  cliPath: string; // Empty to detect the CLI
+  cliArgs: string; // Extra arguments, see parseCliArgs
+}
+
+export type CopilotStatus = 'disconnected' | 'connecting' | 'ready' | 'auth-needed' | 'error';
+
+export interface CopilotDiagnostics {
+  status: CopilotStatus;
+  steps: string[]; // What the last connection attempt did, in order
+  cliPath: string | null;
+  version: string | null;
+  login: string | null;
+  lastError: string | null;
+}
+
+/**
+ * Models of the GitHub Copilot CLI, through the Copilot SDK.
+ */
+export class CopilotProvider implements ModelProvider {
+  readonly id = 'copilot';
+  readonly name = 'GitHub Copilot';
+  private client: CopilotClient | null = null;
+  private status: CopilotStatus = 'disconnected';
+  private diagnostics: Omit<CopilotDiagnostics, 'status'> = {
+    steps: [],
+    cliPath: null,
+    version: null,
+    login: null,
+    lastError: null,
+  };
+  private listeners = new Set<() => void>();
+
+  constructor(private getConfig: () => CopilotCliConfig) {}
+
+  /** Calls `listener` whenever the connection status changes; returns an unsubscribe function. */
+  onStatusChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getStatus(): CopilotStatus {
+    return this.status;
+  }
+
+  getDiagnostics(): CopilotDiagnostics {
+    return { ...this.diagnostics, steps: [...this.diagnostics.steps], status: this.status };
+  }
+
+  isReady(): boolean {
+    return this.client !== null && this.status === 'ready';
+  }
+
+  async start(): Promise<void> {
+    if (this.client) return;
+
+    const { cliPath: configuredPath, cliArgs } = this.getConfig();
+    const diagnostics: Omit<CopilotDiagnostics, 'status'> = {
+      steps: [],
+      cliPath: null,
+      version: null,
+      login: null,
+      lastError: null,
+    };
+    this.diagnostics = diagnostics;
+    const log = (step: string) => {
+      console.log('Copilot:', step);
+      diagnostics.steps.push(step);
+    };
+    this.setStatus('connecting');
+
+    let client: CopilotClient | null = null;
+    try {
+      const cliPath = await getCopilotCliPath(configuredPath.trim(), log);
+      if (!cliPath) {
+        throw new Error(configuredPath.trim()
+          ? 'GitHub Copilot CLI not found at the configured path.'
+          : 'GitHub Copilot CLI not found. Please install it using winget, npm, or your package manager, or set its path in the plugin settings.');
+      }
+      diagnostics.cliPath = cliPath;
+
+      const isWindows = process.platform === 'win32';
+      const clientOptions: any = {
+        cliPath,
+        cliArgs: parseCliArgs(cliArgs),
+        autoStart: true,
+        autoRestart: true,
+      };
+
+      // Use stdio on Unix/macOS, TCP on Windows
+      if (isWindows) {
+        log('Windows detected - using TCP mode');
+        clientOptions.useStdio = false;
+      } else {
+        log('Unix/macOS detected - using stdio mode');
+        clientOptions.useStdio = true;
+      }
+      if (clientOptions.cliArgs.length > 0) log(`Extra arguments: ${clientOptions.cliArgs.join(' ')}`);
+
+      client = new CopilotClient(clientOptions);
+      log('Starting Copilot client...');
+      await client.start();
+      log('Copilot client started');
+
+      try {
+        diagnostics.version = (await client.getStatus()).version;
+        log(`CLI version ${diagnostics.version}`);
+      } catch (error) {
+        log('Could not read the CLI version');
+      }
+
+      // Older CLIs can't report sign-in status; assume signed in and let requests fail otherwise
+      try {
+        const auth = await client.getAuthStatus();
+        if (!auth.isAuthenticated) {
+          this.status = 'auth-needed';
+          throw new Error(auth.statusMessage || 'Not signed in to GitHub Copilot. Run `copilot login` in a terminal.');
+        }
+        diagnostics.login = auth.login ?? null;
+        log(auth.login ? `Signed in as ${auth.login}` : 'Signed in');
+      } catch (error) {
+        if (this.status === 'auth-needed') throw error;
+        log('Could not check sign-in status');
+      }
+
+      this.client = client;
+      this.setStatus('ready');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      diagnostics.lastError = message;
+      log(`Failed: ${message}`);
+      await client?.stop().catch(() => undefined);
+      this.setStatus(this.status === 'auth-needed' ? 'auth-needed' : 'error');
+      throw error;
+    }
+  }
+
+  async stop(): Promise<void> {
+    const client = this.client;
+    this.client = null;
+    if (this.status === 'ready' || this.status === 'connecting') this.setStatus('disconnected');
+    await client?.stop();
+  }
+
+  /** Stops the client if it is running and connects again. */
+  async restart(): Promise<void> {
+    await this.stop();
+    await this.start();
+  }
+
+  private setStatus(status: CopilotStatus): void {
+    this.status = status;
+    this.listeners.forEach((listener) => listener());
+  }
+
+  async listModels(): Promise<ProviderModel[]> {
+    if (!this.client) return [];
+    const models = await this.client.listModels();
+    return models.map((m) => ({
+      id: m.id,
+      name: m.name,
+      contextWindow: m.capabilities?.limits?.max_context_window_tokens,
+      vision: m.capabilities?.supports?.vision,
+      // Reported by the CLI but missing from the SDK's types
+      tools: (m.capabilities?.supports as { tool_calls?: boolean } | undefined)?.tool_calls,
+      policy: m.policy?.state,
+      premiumMultiplier: m.billing?.multiplier,
+    }));
+  }
+
+  async createSession(options: ProviderSessionOptions): Promise<ProviderSession> {
+    if (!this.client) throw new Error('GitHub Copilot is not connected');
+    const session = await this.client.createSession({
+      model: options.model || undefined,
+      streaming: options.streaming,
+      systemMessage: {
+        content: options.systemMessage,
+      },
+    });
+    return new CopilotProviderSession(session);
+  }
+}
+
+// ── OpenAI-Compatible Server ───────────────────────────────────────────────────
+
+export interface OpenAiCompatibleConfig {
+  name: string; // Shown next to the server's model names
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  apiKey: string;
+}
+
+interface ChatCompletionMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+function getRequestHeaders(config: OpenAiCompatibleConfig): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+  return headers;
+}
+
+function getRequestUrl(config: OpenAiCompatibleConfig, path: string): string {
+  return config.baseUrl.replace(/\/+$/, '') + path;
+}
+
+function formatRequestError(config: OpenAiCompatibleConfig, status: number, body: string): Error {
+  const text = body.slice(0, 200);
+  return new Error(`${config.name} returned ${status}${text ? `: ${text}` : ''}`);
+}
+
+/**
+ * A request through `fetch`, used for chat completions, which need streaming
+ * and aborting. Local servers must allow the app's origin (CORS) for these.
+ */
+async function requestJson(config: OpenAiCompatibleConfig, path: string, init: RequestInit): Promise<Response> {
+  const response = await fetch(getRequestUrl(config, path), { ...init, headers: getRequestHeaders(config) });
+  if (!response.ok) {
+    throw formatRequestError(config, response.status, await response.text().catch(() => ''));
+  }
+  return response;
+}
+
+/**
+ * Reads a streamed chat completion (server-sent events) and returns the full
+ * reply.
+ */
+async function readCompletionStream(response: Response, onDelta?: (delta: string) => void): Promise<string> {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let reply = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by newlines; keep a partial line for the next chunk
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.trim();
+      if (!data.startsWith('data:')) continue;
+      const payload = data.slice('data:'.length).trim();
+      if (payload === '[DONE]') continue;
+
+      // Some servers send keep-alive or vendor lines; skip what isn't a completion chunk
+      let delta: string | undefined;
+      try {
+        delta = (JSON.parse(payload) as { choices?: { delta?: { content?: string } }[] })
+          .choices?.[0]?.delta?.content;
+      } catch {
+        continue;
+      }
+      if (delta) {
+        reply += delta;
+        onDelta?.(delta);
+      }
+    }
+  }
+  return reply;
+}
+
+class OpenAiProviderSession implements ProviderSession {
+  private messages: ChatCompletionMessage[];
+  private controller: AbortController | null = null;
+
+  constructor(
+    private config: OpenAiCompatibleConfig,
+    private options: ProviderSessionOptions,
+  ) {
+    this.messages = [{ role: 'system', content: options.systemMessage }];
+  }
+
+  async send(prompt: string, onDelta?: (delta: string) => void): Promise<string> {
+    const controller = new AbortController();
+    this.controller = controller;
+    const messages: ChatCompletionMessage[] = [...this.messages, { role: 'user', content: prompt }];
+
+    try {
+      const response = await requestJson(this.config, '/chat/completions', {
+        method: 'POST',
+        body: JSON.stringify({ model: this.options.model, messages, stream: Boolean(this.options.streaming) }),
+        signal: controller.signal,
+      });
+
+      let reply: string;
+      if (this.options.streaming) {
+        reply = await readCompletionStream(response, onDelta);
+      } else {
+        const data = (await response.json()) as { choices?: { message?: { content?: string } }[] };
+        reply = data.choices?.[0]?.message?.content ?? '';
+      }
+
+      // Only completed exchanges become part of the conversation
+      this.messages = [...messages, { role: 'assistant', content: reply }];
+      return reply;
+    } finally {
+      if (this.controller === controller) this.controller = null;
+    }
+  }
+
+  async abort(): Promise<void> {
+    this.controller?.abort();
+  }
+
+  async destroy(): Promise<void> {
+    this.controller?.abort();
+    this.messages = [];
+  }
+}
+
+/**
+ * Models of a server with an OpenAI-compatible chat completions API, such as
+ * Ollama, llama.cpp or LM Studio.
+ */
+export class OpenAiCompatibleProvider implements ModelProvider {
+  readonly id = 'openai';
+
+  constructor(private getConfig: () => OpenAiCompatibleConfig) {}
+
+  get name(): string {
+    return this.getConfig().name || 'OpenAI-compatible';
+  }
+
+  isReady(): boolean {
+    return Boolean(this.getConfig().baseUrl.trim());
+  }
+
+  // Requests are independent HTTP calls; there is no connection to manage
+  async start(): Promise<void> {}
+
+  async stop(): Promise<void> {}
+
+  async listModels(): Promise<ProviderModel[]> {
+    // Obsidian's requestUrl isn't subject to CORS, which many local servers don't set up
+    const config = this.getConfig();
+    const response = await requestUrl({
+      url: getRequestUrl(config, '/models'),
+      method: 'GET',
+      headers: getRequestHeaders(config),
+      throw: false,
+    });
+    if (response.status >= 400) {
+      throw formatRequestError(config, response.status, response.text);
+    }
+    const data = response.json as { data?: { id: string }[] };
+    return (data.data ?? []).map((m) => ({ id: m.id, name: m.id }));
+  }
+
+  async createSession(options: ProviderSessionOptions): Promise<ProviderSession> {
+    return new OpenAiProviderSession(this.getConfig(), options);
+  }
+}
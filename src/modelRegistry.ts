@@ -0,0 +1,137 @@
+import { formatTokenCount } from './contextBudget';
+import { ModelPolicyState, ModelProvider, ProviderId, formatModelRef } from './modelProvider';
+
+// ── Model Registry ─────────────────────────────────────────────────────────────
+//
+// The models of every connected provider with what is known about them. The
+// plugin refreshes it when providers connect or on demand; every model menu
+// is filled from it, and requests for a model that isn't available fall back
+// to one that is.
+
+export interface ModelInfo {
+  id: string; // Model reference, see modelProvider.ts
+  name: string;
+  provider: ProviderId;
+  providerName: string;
+  contextWindow?: number; // Tokens
+  vision?: boolean;
+  tools?: boolean;
+  policy?: ModelPolicyState;
+  premiumMultiplier?: number; // Premium requests used per request; 0 for included models
+}
+
+export class ModelRegistry {
+  private models: ModelInfo[] = [];
+  private loaded = false;
+  private listeners = new Set<() => void>();
+
+  /** Calls `listener` whenever the models change; returns an unsubscribe function. */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Whether the models have been fetched at least once. */
+  isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  getModels(): ModelInfo[] {
+    return this.models;
+  }
+
+  getModel(id: string): ModelInfo | undefined {
+    return this.models.find((m) => m.id === id);
+  }
+
+  /** Whether the model is listed by a connected provider and not disabled by policy. */
+  isAvailable(id: string): boolean {
+    const model = this.getModel(id);
+    return !!model && model.policy !== 'disabled';
+  }
+
+  /**
+   * The model to use when none is chosen or the chosen one is unavailable:
+   * the first included model (no premium requests), else the first available.
+   */
+  getFallbackModel(): ModelInfo | undefined {
+    const available = this.models.filter((m) => m.policy !== 'disabled');
+    return available.find((m) => m.premiumMultiplier === 0) ?? available[0];
+  }
+
+  /**
+   * Fetches the models of the given providers. A provider that fails to list
+   * its models is skipped.
+   */
+  async refresh(providers: ModelProvider[]): Promise<void> {
+    const models: ModelInfo[] = [];
+    for (const provider of providers) {
+      try {
+        for (const model of await provider.listModels()) {
+          models.push({
+            ...model,
+            id: formatModelRef(provider.id, model.id),
+            provider: provider.id,
+            providerName: provider.name,
+          });
+        }
+      } catch (error) {
+        console.error(`Failed to fetch models from ${provider.name}:`, error);
+      }
+    }
+
+    this.models = models;
+    this.loaded = true;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// ── Model Menus ────────────────────────────────────────────────────────────────
+
+/**
+ * Short capability labels for a model menu, e.g. "128k · vision · 1×".
+ */
+export function formatModelBadges(model: ModelInfo): string {
+  const badges: string[] = [];
+  if (model.contextWindow) badges.push(formatTokenCount(model.contextWindow));
+  if (model.vision) badges.push('vision');
+  if (model.tools) badges.push('tools');
+  if (model.premiumMultiplier !== undefined) {
+    badges.push(model.premiumMultiplier === 0 ? 'included' : `${model.premiumMultiplier}×`);
+  }
+  if (model.policy === 'disabled') badges.push('disabled by policy');
+  return badges.join(' · ');
+}
+
+/**
+ * Fills a model menu, grouped by provider when there is more than one. Models
+ * disabled by policy are shown but can't be picked, and a current value that
+ * isn't listed is kept as an unavailable entry.
+ */
+export function populateModelSelect(
+  selectEl: HTMLSelectElement,
+  models: ModelInfo[],
+  value: string,
+  emptyOption?: string, // Label of a '' option, e.g. "Use default model"
+): void {
+  selectEl.empty();
+  if (emptyOption) selectEl.createEl('option', { text: emptyOption, value: '' });
+
+  const providers = Array.from(new Set(models.map((m) => m.providerName)));
+  for (const providerName of providers) {
+    const parentEl = providers.length > 1 ? selectEl.createEl('optgroup', { attr: { label: providerName } }) : selectEl;
+    for (const model of models.filter((m) => m.providerName === providerName)) {
+      const badges = formatModelBadges(model);
+      const option = parentEl.createEl('option', {
+        text: badges ? `${model.name} (${badges})` : model.name,
+        value: model.id,
+      });
+      option.disabled = model.policy === 'disabled';
+    }
+  }
+
+  if (value && !models.some((m) => m.id === value)) {
+    selectEl.createEl('option', { text: `${value} (unavailable)`, value });
+  }
+  selectEl.value = value;
+}
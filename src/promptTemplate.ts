@@ -0,0 +1,231 @@
+import { App, TFile, getFrontMatterInfo } from 'obsidian';
+
+// ── Prompt Templates ───────────────────────────────────────────────────────────
+//
+// Action prompts and system prompts can use {{variable}} placeholders, filled
+// in from the note the action runs in, and {{#if variable}}...{{else}}...{{/if}}
+// blocks, whose first branch is used when the variable is not empty. Unknown
+// variables and unbalanced blocks are reported before anything is sent.
+// {{param.<name>}} is a value asked for when the action runs; see
+// actionParameters.ts.
+
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'selection', description: 'Selected text' },
+  { name: 'note.title', description: 'Name of the note' },
+  { name: 'note.path', description: 'Vault path of the note' },
+  { name: 'note.content', description: 'Note content, without frontmatter' },
+  { name: 'frontmatter.<key>', description: 'A frontmatter property of the note' },
+  { name: 'heading', description: 'Heading above the cursor' },
+  { name: 'date', description: "Today's date (YYYY-MM-DD)" },
+  { name: 'time', description: 'Current time (HH:mm)' },
+  { name: 'clipboard', description: 'Text on the clipboard' },
+  { name: 'linked_notes', description: 'Content of the notes this note links to' },
+  { name: 'param.<name>', description: 'A parameter of the action, asked for when it runs' },
+];
+
+const KNOWN_VARIABLES = new Set(TEMPLATE_VARIABLES.map((v) => v.name).filter((name) => !name.includes('<')));
+
+// Linked notes included by {{linked_notes}}, and characters kept of each
+const MAX_LINKED_NOTES = 10;
+const MAX_LINKED_NOTE_CHARS = 4000;
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; name: string }
+  | { type: 'if'; name: string; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+interface ParsedTemplate {
+  nodes: TemplateNode[];
+  variables: Set<string>;
+  errors: string[];
+}
+
+function isKnownVariable(name: string): boolean {
+  return KNOWN_VARIABLES.has(name) || /^frontmatter\..+/.test(name);
+}
+
+/**
+ * Parses a template. `parameterNames` are the action's declared parameters,
+ * the only ones {{param.<name>}} may refer to.
+ */
+function parseTemplate(template: string, parameterNames: string[] = []): ParsedTemplate {
+  const root: TemplateNode[] = [];
+  const variables = new Set<string>();
+  const errors: string[] = [];
+  // Open {{#if}} blocks, innermost last; `nodes` is the branch being filled
+  const stack: { block: Extract<TemplateNode, { type: 'if' }>; nodes: TemplateNode[] }[] = [];
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].nodes : root);
+
+  const addVariable = (name: string) => {
+    if (!name) {
+      errors.push('Empty placeholder {{}}');
+    } else if (name.startsWith('param.')) {
+      if (!parameterNames.includes(name.slice('param.'.length))) {
+        errors.push(`Unknown parameter {{${name}}}; add it to the action's parameters`);
+      }
+    } else if (!isKnownVariable(name)) {
+      errors.push(`Unknown variable {{${name}}}`);
+    }
+    variables.add(name);
+  };
+
+  const tagPattern = /\{\{\s*([^}]*?)\s*\}\}/g;
+  let position = 0;
+  for (const match of template.matchAll(tagPattern)) {
+    const index = match.index ?? 0;
+    if (index > position) current().push({ type: 'text', text: template.slice(position, index) });
+    position = index + match[0].length;
+
+    const tag = match[1];
+    if (tag.startsWith('#if ') || tag === '#if') {
+      const name = tag.slice(3).trim();
+      addVariable(name);
+      const block: Extract<TemplateNode, { type: 'if' }> = { type: 'if', name, then: [], otherwise: [] };
+      current().push(block);
+      stack.push({ block, nodes: block.then });
+    } else if (tag === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.nodes === open.block.otherwise) {
+        errors.push('{{else}} without a matching {{#if}}');
+      } else {
+        open.nodes = open.block.otherwise;
+      }
+    } else if (tag === '/if') {
+      if (!stack.pop()) errors.push('{{/if}} without a matching {{#if}}');
+    } else if (tag.startsWith('#') || tag.startsWith('/')) {
+      errors.push(`Unknown block {{${tag}}}; only {{#if}} is supported`);
+    } else {
+      addVariable(tag);
+      current().push({ type: 'variable', name: tag });
+    }
+  }
+  if (position < template.length) current().push({ type: 'text', text: template.slice(position) });
+
+  for (const open of stack) errors.push(`{{#if ${open.block.name}}} is never closed with {{/if}}`);
+  return { nodes: root, variables, errors };
+}
+
+function renderNodes(nodes: TemplateNode[], values: Record<string, string>): string {
+  return nodes
+    .map((node) => {
+      if (node.type === 'text') return node.text;
+      if (node.type === 'variable') return values[node.name] ?? '';
+      return renderNodes(values[node.name]?.trim() ? node.then : node.otherwise, values);
+    })
+    .join('');
+}
+
+/**
+ * Problems with a template, e.g. unknown variables; empty if it is valid.
+ */
+export function validateTemplate(template: string, parameterNames: string[] = []): string[] {
+  return parseTemplate(template, parameterNames).errors;
+}
+
+// ── Variable Values ────────────────────────────────────────────────────────────
+
+export interface TemplateContext {
+  selection: string;
+  file: TFile | null;
+  cursorOffset: number; // Offset in the note, used for {{heading}}
+  parameters?: Record<string, string>; // Values of the action's parameters, by name
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function getHeadingAbove(app: App, file: TFile, offset: number): string {
+  const headings = app.metadataCache.getFileCache(file)?.headings ?? [];
+  const above = headings.filter((h) => h.position.start.offset <= offset);
+  return above.length > 0 ? above[above.length - 1].heading : '';
+}
+
+async function getLinkedNotes(app: App, file: TFile): Promise<string> {
+  const links = app.metadataCache.getFileCache(file)?.links ?? [];
+  const seen = new Set<string>();
+  const sections: string[] = [];
+
+  for (const link of links) {
+    if (sections.length >= MAX_LINKED_NOTES) break;
+    const target = app.metadataCache.getFirstLinkpathDest(link.link.split('#')[0], file.path);
+    if (!target || target.extension !== 'md' || target === file || seen.has(target.path)) continue;
+    seen.add(target.path);
+
+    const content = await app.vault.cachedRead(target);
+    const body = content.slice(getFrontMatterInfo(content).contentStart).trim();
+    const text = body.length > MAX_LINKED_NOTE_CHARS ? body.slice(0, MAX_LINKED_NOTE_CHARS) + '\n…' : body;
+    sections.push(`## ${target.basename}\n\n${text}`);
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * Looks up the values of the given variables. Only what is used is read, so
+ * e.g. the clipboard is left alone unless a template asks for it.
+ */
+async function resolveVariables(app: App, names: Set<string>, context: TemplateContext): Promise<Record<string, string>> {
+  const { file } = context;
+  const values: Record<string, string> = {};
+  const frontmatter = file ? app.metadataCache.getFileCache(file)?.frontmatter : undefined;
+  const now = new Date();
+
+  for (const name of names) {
+    if (name === 'selection') {
+      values[name] = context.selection;
+    } else if (name === 'note.title') {
+      values[name] = file?.basename ?? '';
+    } else if (name === 'note.path') {
+      values[name] = file?.path ?? '';
+    } else if (name === 'note.content') {
+      const content = file ? await app.vault.cachedRead(file) : '';
+      values[name] = content.slice(getFrontMatterInfo(content).contentStart);
+    } else if (name.startsWith('param.')) {
+      values[name] = context.parameters?.[name.slice('param.'.length)] ?? '';
+    } else if (name.startsWith('frontmatter.')) {
+      const value: unknown = frontmatter?.[name.slice('frontmatter.'.length)];
+      values[name] = value === undefined || value === null ? '' : Array.isArray(value) ? value.join(', ') : String(value);
+    } else if (name === 'heading') {
+      values[name] = file ? getHeadingAbove(app, file, context.cursorOffset) : '';
+    } else if (name === 'date') {
+      values[name] = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+    } else if (name === 'time') {
+      values[name] = `${pad(now.getHours())}:${pad(now.getMinutes())}`;
+    } else if (name === 'clipboard') {
+      values[name] = await navigator.clipboard.readText().catch(() => '');
+    } else if (name === 'linked_notes') {
+      values[name] = file ? await getLinkedNotes(app, file) : '';
+    }
+  }
+  return values;
+}
+
+// ── Rendering ──────────────────────────────────────────────────────────────────
+
+/**
+ * Fills in an action's system prompt and prompt. A prompt that doesn't use
+ * {{selection}} gets the selection appended, as before templates existed.
+ * Throws an error naming the problems if either template is invalid.
+ */
+export async function renderActionTemplates(
+  app: App,
+  action: { name: string; system: string; prompt: string; parameters?: { name: string }[] },
+  context: TemplateContext,
+): Promise<{ system: string; prompt: string }> {
+  const parameterNames = (action.parameters ?? []).map((p) => p.name);
+  const system = parseTemplate(action.system, parameterNames);
+  const prompt = parseTemplate(action.prompt, parameterNames);
+
+  const errors = [
+    ...system.errors.map((error) => `system prompt: ${error}`),
+    ...prompt.errors.map((error) => `prompt: ${error}`),
+  ];
+  if (errors.length > 0) {
+    throw new Error(`${action.name} - ${errors.join('; ')}`);
+  }
+
+  const values = await resolveVariables(app, new Set([...system.variables, ...prompt.variables]), context);
+  let renderedPrompt = renderNodes(prompt.nodes, values);
+  if (!prompt.variables.has('selection') && context.selection) {
+    renderedPrompt += '\n\n' + context.selection;
+  }
+  return { system: renderNodes(system.nodes, values), prompt: renderedPrompt };
+}
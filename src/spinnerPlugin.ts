@@ -8,6 +8,9 @@ import {
   ViewUpdate,
   WidgetType,
 } from "@codemirror/view";
+import { App, Component, MarkdownRenderer, setIcon } from "obsidian";
+import { estimateTokens, formatTokenCount } from "./contextBudget";
+import { closeOpenMarkdown, splitStableMarkdown } from "./streamingMarkdown";
 
 // ── Loader Widget (animated spinner) ───────────────────────────────────────────
 
@@ -19,12 +22,32 @@ class LoaderWidget extends WidgetType {
   }
 }
 
-// ── Content Widget (streaming text preview) ────────────────────────────────────
+// ── Content Widget (streaming Markdown preview) ────────────────────────────────
+
+export interface StreamPreviewOptions {
+  app: App;
+  sourcePath: string; // Note the preview's links and embeds resolve against
+  onStop?: () => void;
+}
+
+// Minimum time between renders of the unfinished tail
+const RENDER_INTERVAL_MS = 100;
 
 class ContentWidget extends WidgetType {
   private dom: HTMLElement | null = null;
+  private stableEl: HTMLElement | null = null;
+  private tailEl: HTMLElement | null = null;
+  private counterEl: HTMLElement | null = null;
+  private renderedStableLength = 0;
+  private renderTimer: number | null = null;
+  private renderCount = 0;
+  private collapsed = false;
+  private component = new Component();
 
-  constructor(private text: string) {
+  constructor(
+    private text: string,
+    private options: StreamPreviewOptions,
+  ) {
     super();
   }
 
@@ -33,35 +56,94 @@ class ContentWidget extends WidgetType {
   }
 
   updateText(newText: string) {
-    if (this.dom && this.text !== newText) {
-      const previousText = this.text;
-      this.text = newText;
-
-      // If new text extends previous text, only append the new chunk with animation
-      if (newText.startsWith(previousText)) {
-        const addedText = newText.slice(previousText.length);
-        if (addedText) {
-          // Keep existing text, append new chunk in animated span
-          this.dom.textContent = newText.slice(0, -addedText.length);
-          const span = document.createElement("span");
-          span.addClass("copilot-stream-chunk");
-          span.textContent = addedText;
-          this.dom.appendChild(span);
-        }
-      } else {
-        this.dom.textContent = newText;
-      }
-    }
+    if (this.text === newText) return;
+    this.text = newText;
+    if (this.dom) this.scheduleRender();
   }
 
   toDOM(): HTMLElement {
     if (!this.dom) {
+      this.component.load();
       this.dom = document.createElement("div");
       this.dom.addClass("copilot-content");
-      this.dom.textContent = this.text;
+
+      const header = this.dom.createDiv({ cls: "copilot-content-header" });
+      const toggle = header.createEl("button", {
+        cls: "clickable-icon copilot-content-toggle",
+        attr: { "aria-label": "Collapse preview" },
+      });
+      setIcon(toggle, "chevron-down");
+      toggle.addEventListener("click", () => {
+        this.collapsed = !this.collapsed;
+        this.dom?.toggleClass("is-collapsed", this.collapsed);
+        setIcon(toggle, this.collapsed ? "chevron-right" : "chevron-down");
+        toggle.setAttribute("aria-label", this.collapsed ? "Expand preview" : "Collapse preview");
+      });
+
+      header.createSpan({ cls: "copilot-content-label", text: "Copilot is writing" });
+      this.counterEl = header.createSpan({ cls: "copilot-content-counter" });
+
+      if (this.options.onStop) {
+        const onStop = this.options.onStop;
+        const stop = header.createEl("button", { cls: "copilot-content-stop", text: "Stop" });
+        stop.addEventListener("click", () => onStop());
+      }
+
+      const body = this.dom.createDiv({ cls: "copilot-content-body markdown-rendered" });
+      this.stableEl = body.createDiv();
+      this.tailEl = body.createDiv();
+      this.render();
     }
     return this.dom;
   }
+
+  destroy() {
+    if (this.renderTimer !== null) {
+      window.clearTimeout(this.renderTimer);
+      this.renderTimer = null;
+    }
+    this.component.unload();
+  }
+
+  private scheduleRender() {
+    if (this.renderTimer !== null) return;
+    this.renderTimer = window.setTimeout(() => {
+      this.renderTimer = null;
+      this.render();
+    }, RENDER_INTERVAL_MS);
+  }
+
+  /**
+   * Renders finished blocks once, appending them as they complete, and
+   * re-renders only the unfinished tail.
+   */
+  private render() {
+    if (!this.stableEl || !this.tailEl || !this.counterEl) return;
+    const { app, sourcePath } = this.options;
+
+    this.counterEl.setText(
+      `${this.text.length.toLocaleString()} chars · ~${formatTokenCount(estimateTokens(this.text))} tokens`,
+    );
+
+    const { stable, tail } = splitStableMarkdown(this.text);
+    if (stable.length < this.renderedStableLength) {
+      // The text was replaced rather than extended
+      this.stableEl.empty();
+      this.renderedStableLength = 0;
+    }
+    if (stable.length > this.renderedStableLength) {
+      const blockEl = this.stableEl.createDiv();
+      void MarkdownRenderer.render(app, stable.slice(this.renderedStableLength), blockEl, sourcePath, this.component);
+      this.renderedStableLength = stable.length;
+    }
+
+    // Swapped in once rendered, unless a newer render has started
+    const renderId = ++this.renderCount;
+    const tailEl = createDiv();
+    void MarkdownRenderer.render(app, closeOpenMarkdown(tail), tailEl, sourcePath, this.component).then(() => {
+      if (renderId === this.renderCount) this.tailEl?.replaceChildren(...Array.from(tailEl.childNodes));
+    });
+  }
 }
 
 // ── Spinner Plugin (CM6 ViewPlugin) ────────────────────────────────────────────
@@ -70,7 +152,12 @@ export class SpinnerPlugin implements PluginValue {
   decorations: DecorationSet;
   private entries: Map<
     string,
-    { position: number; isEndOfLine: boolean; widget: WidgetType }
+    {
+      position: number;
+      isEndOfLine: boolean;
+      widget: WidgetType;
+      options: StreamPreviewOptions;
+    }
   >;
   private positionToId: Map<number, string>;
   private idCounter = 0;
@@ -81,13 +168,14 @@ export class SpinnerPlugin implements PluginValue {
     this.decorations = Decoration.none;
   }
 
-  show(position: number): () => void {
+  show(position: number, options: StreamPreviewOptions): () => void {
     const isEndOfLine = this.isPositionAtEndOfLine(position);
     const id = `spinner-${++this.idCounter}`;
     this.entries.set(id, {
       position,
       isEndOfLine,
       widget: new LoaderWidget(),
+      options,
     });
     this.positionToId.set(position, id);
     this.updateDecorations();
@@ -116,9 +204,9 @@ export class SpinnerPlugin implements PluginValue {
 
   updateContent(text: string, originalPosition?: number) {
     let updated = false;
-    const updateEntry = (data: { widget: WidgetType }) => {
+    const updateEntry = (data: { widget: WidgetType; options: StreamPreviewOptions }) => {
       if (data.widget instanceof LoaderWidget) {
-        data.widget = new ContentWidget(text);
+        data.widget = new ContentWidget(text, data.options);
         updated = true;
       } else if (data.widget instanceof ContentWidget) {
         data.widget.updateText(text);
@@ -0,0 +1,83 @@
+// ── Streaming Markdown ─────────────────────────────────────────────────────────
+//
+// Helpers for previewing Markdown while it is still being streamed. Finished
+// blocks are rendered once; the unfinished tail is patched up (open fences
+// closed, half-written tables completed) so it renders sensibly on every
+// update.
+
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+
+/**
+ * Splits streamed Markdown into finished blocks and the unfinished tail. The
+ * split is made at the last blank line outside a code fence.
+ */
+export function splitStableMarkdown(text: string): { stable: string; tail: string } {
+  let openFence: string | null = null;
+  let offset = 0;
+  let splitAt = 0;
+
+  for (const line of text.split('\n')) {
+    const lineEnd = offset + line.length + 1;
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      if (!openFence) {
+        openFence = fence[1];
+      } else if (fence[1].startsWith(openFence) && !line.trim().slice(fence[1].length)) {
+        openFence = null;
+      }
+    } else if (!openFence && !line.trim() && lineEnd <= text.length) {
+      splitAt = lineEnd;
+    }
+    offset = lineEnd;
+  }
+
+  return { stable: text.slice(0, splitAt), tail: text.slice(splitAt) };
+}
+
+function countTableCells(row: string): number {
+  return row.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').length;
+}
+
+/**
+ * Completes a table at the end of the text: closes the last row and adds the
+ * header separator if it hasn't been streamed yet.
+ */
+function closeOpenTable(lines: string[]): string[] {
+  let start = lines.length;
+  while (start > 0 && lines[start - 1].trim().startsWith('|')) start--;
+  if (start === lines.length) return lines;
+
+  const rows = lines.slice(start).map((row) => (row.trim().endsWith('|') ? row : row + ' |'));
+  const columns = countTableCells(rows[0]);
+  const separator = '|' + ' --- |'.repeat(columns);
+
+  if (rows.length === 1) {
+    rows.push(separator);
+  } else if (!/^\s*\|(\s*:?-+:?\s*\|)+\s*$/.test(rows[1]) || countTableCells(rows[1]) !== columns) {
+    // A half-written separator row
+    rows[1] = separator;
+  }
+  return [...lines.slice(0, start), ...rows];
+}
+
+/**
+ * Makes unfinished Markdown render as it will once complete: closes an open
+ * code fence and completes a trailing table.
+ */
+export function closeOpenMarkdown(text: string): string {
+  let openFence: string | null = null;
+  for (const line of text.split('\n')) {
+    const fence = line.match(FENCE_PATTERN);
+    if (!fence) continue;
+    if (!openFence) {
+      openFence = fence[1];
+    } else if (fence[1].startsWith(openFence) && !line.trim().slice(fence[1].length)) {
+      openFence = null;
+    }
+  }
+
+  if (openFence) {
+    return text.replace(/\n?$/, '\n') + openFence;
+  }
+  return closeOpenTable(text.split('\n')).join('\n');
+}
@@ -0,0 +1,137 @@
+// ── Text Diff ──────────────────────────────────────────────────────────────────
+//
+// A small LCS-based diff used by the inline review. Text is split into words
+// (or lines), the longest common subsequence of tokens is kept, and runs of
+// removed/added tokens become hunks that can be accepted or rejected one by one.
+
+export type DiffGranularity = 'word' | 'line';
+
+export interface DiffHunk {
+  from: number; // Start offset of the replaced text in the old text
+  to: number; // End offset (exclusive) in the old text; equal to `from` for pure insertions
+  insert: string; // Replacement text; empty for pure deletions
+}
+
+// Above this many LCS cells a word diff falls back to lines, and a line diff
+// to a single hunk, to keep the review responsive on very long selections.
+const MAX_LCS_CELLS = 4_000_000;
+
+function tokenize(text: string, granularity: DiffGranularity): string[] {
+  if (granularity === 'line') {
+    return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+  }
+  // Whitespace runs, words and single punctuation characters
+  return text.match(/\s+|[\p{L}\p{N}_'’-]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+}
+
+/**
+ * Returns, for each old token, whether it is kept (part of the LCS), and the
+ * same for each new token.
+ */
+function longestCommonSubsequence(a: string[], b: string[]): { keptA: boolean[]; keptB: boolean[] } {
+  const n = a.length;
+  const m = b.length;
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  const at = (i: number, j: number) => i * (m + 1) + j;
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[at(i, j)] = a[i] === b[j]
+        ? lengths[at(i + 1, j + 1)] + 1
+        : Math.max(lengths[at(i + 1, j)], lengths[at(i, j + 1)]);
+    }
+  }
+
+  const keptA = new Array<boolean>(n).fill(false);
+  const keptB = new Array<boolean>(m).fill(false);
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      keptA[i++] = true;
+      keptB[j++] = true;
+    } else if (lengths[at(i + 1, j)] >= lengths[at(i, j + 1)]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return { keptA, keptB };
+}
+
+function diffTokens(a: string[], b: string[]): DiffHunk[] | null {
+  // Common prefix and suffix don't need the LCS table
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  if ((midA.length + 1) * (midB.length + 1) > MAX_LCS_CELLS) return null;
+
+  const { keptA, keptB } = longestCommonSubsequence(midA, midB);
+
+  const hunks: DiffHunk[] = [];
+  let offset = a.slice(0, prefix).join('').length;
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && keptA[i] && keptB[j]) {
+      offset += midA[i].length;
+      i++;
+      j++;
+      continue;
+    }
+
+    const from = offset;
+    let insert = '';
+    while (i < midA.length && !keptA[i]) offset += midA[i++].length;
+    while (j < midB.length && !keptB[j]) insert += midB[j++];
+    hunks.push({ from, to: offset, insert });
+  }
+  return hunks;
+}
+
+/**
+ * Joins hunks separated only by a short run of unchanged spaces, so replacing
+ * a phrase shows as one change instead of one per word.
+ */
+function mergeAdjacentHunks(oldText: string, hunks: DiffHunk[]): DiffHunk[] {
+  const merged: DiffHunk[] = [];
+  for (const hunk of hunks) {
+    const previous = merged[merged.length - 1];
+    const gap = previous ? oldText.slice(previous.to, hunk.from) : null;
+    if (previous && gap !== null && /^[ \t]{1,3}$/.test(gap)) {
+      previous.insert += gap + hunk.insert;
+      previous.to = hunk.to;
+    } else {
+      merged.push({ ...hunk });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Computes the changes that turn `oldText` into `newText` as hunks with
+ * offsets into `oldText`, ordered by position.
+ */
+export function computeDiff(oldText: string, newText: string, granularity: DiffGranularity = 'word'): DiffHunk[] {
+  if (oldText === newText) return [];
+
+  const hunks = diffTokens(tokenize(oldText, granularity), tokenize(newText, granularity));
+  if (hunks) {
+    return granularity === 'word' ? mergeAdjacentHunks(oldText, hunks) : hunks;
+  }
+  if (granularity === 'word') {
+    return computeDiff(oldText, newText, 'line');
+  }
+  return [{ from: 0, to: oldText.length, insert: newText }];
+}
+
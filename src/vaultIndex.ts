@@ -0,0 +1,317 @@
+import { App, TFile, debounce, getFrontMatterInfo, normalizePath } from 'obsidian';
+
+// ── Vault Index ────────────────────────────────────────────────────────────────
+//
+// A local lexical (BM25) index over the vault's Markdown notes, chunked by
+// heading. Only term counts and chunk offsets are persisted; chunk text is read
+// from the note when a chunk is retrieved.
+
+export interface VaultChunk {
+  path: string;
+  heading: string; // Nearest heading above the chunk; empty for text before the first heading
+  text: string;
+  score: number;
+}
+
+interface IndexedChunk {
+  heading: string;
+  from: number;
+  to: number;
+  length: number; // Number of terms, for BM25 length normalization
+  terms: Record<string, number>; // Term counts; read with getTermCount
+}
+
+interface IndexedFile {
+  mtime: number;
+  chunks: IndexedChunk[];
+}
+
+interface PersistedIndex {
+  version: number;
+  files: Record<string, IndexedFile>;
+}
+
+const INDEX_VERSION = 1;
+const MAX_CHUNK_CHARS = 2000;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'did', 'do', 'does', 'for', 'from',
+  'had', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'no', 'not',
+  'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their', 'them', 'there', 'these', 'they', 'this',
+  'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you',
+  'your', 'about', 'across', 'all', 'any',
+]);
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (term) => term.length > 1 && !STOPWORDS.has(term),
+  );
+}
+
+function countTerms(terms: string[]): Record<string, number> {
+  // No prototype, so terms such as "constructor" or "tostring" start at zero
+  const counts: Record<string, number> = Object.create(null);
+  for (const term of terms) {
+    counts[term] = (counts[term] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * How often a term occurs in a chunk. Only own properties count: chunks
+ * loaded from disk are plain objects, whose prototype has members named
+ * like words ("constructor", "valueof").
+ */
+function getTermCount(chunk: IndexedChunk, term: string): number {
+  return Object.prototype.hasOwnProperty.call(chunk.terms, term) ? chunk.terms[term] : 0;
+}
+
+/**
+ * Splits a note into chunks at headings; long sections are split further at
+ * paragraph boundaries.
+ */
+function chunkNote(title: string, content: string): IndexedChunk[] {
+  const start = getFrontMatterInfo(content).contentStart;
+  const headingPattern = /^(#{1,6})\s+(.+)$/gm;
+  headingPattern.lastIndex = start;
+
+  const sections: { heading: string; from: number; to: number }[] = [];
+  let sectionStart = start;
+  let sectionHeading = '';
+  let match: RegExpExecArray | null;
+  while ((match = headingPattern.exec(content)) !== null) {
+    sections.push({ heading: sectionHeading, from: sectionStart, to: match.index });
+    sectionStart = match.index;
+    sectionHeading = match[2].trim();
+  }
+  sections.push({ heading: sectionHeading, from: sectionStart, to: content.length });
+
+  const chunks: IndexedChunk[] = [];
+  for (const section of sections) {
+    let from = section.from;
+    while (from < section.to) {
+      let to = Math.min(section.to, from + MAX_CHUNK_CHARS);
+      if (to < section.to) {
+        const paragraphBreak = content.lastIndexOf('\n\n', to);
+        if (paragraphBreak > from) to = paragraphBreak;
+      }
+
+      const text = content.slice(from, to);
+      if (text.trim()) {
+        const terms = tokenize(`${title} ${section.heading} ${text}`);
+        chunks.push({ heading: section.heading, from, to, length: terms.length, terms: countTerms(terms) });
+      }
+      from = to;
+    }
+  }
+  return chunks;
+}
+
+export class VaultIndex {
+  private app: App;
+  private indexPath: string;
+  private files: Record<string, IndexedFile> = {};
+  private documentFrequencies: Map<string, number> | null = null;
+  private loaded = false;
+  private building: Promise<void> | null = null;
+  private pendingFiles: Set<string> = new Set();
+
+  private requestSave = debounce(() => void this.save(), 2000, true);
+  private requestFlush = debounce(() => void this.flushPendingFiles(), 1000, true);
+
+  constructor(app: App, pluginDir: string) {
+    this.app = app;
+    this.indexPath = normalizePath(`${pluginDir}/vault-index.json`);
+  }
+
+  isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  getFileCount(): number {
+    return Object.keys(this.files).length;
+  }
+
+  /**
+   * Loads the persisted index and brings it up to date with the vault,
+   * re-indexing only notes whose modification time changed.
+   */
+  async ensureBuilt(): Promise<void> {
+    if (this.loaded) return;
+    if (!this.building) {
+      this.building = this.load().then(() => this.refresh()).finally(() => {
+        this.building = null;
+      });
+    }
+    await this.building;
+  }
+
+  /**
+   * Drops the index and indexes every note again.
+   */
+  async rebuild(): Promise<void> {
+    this.files = {};
+    this.documentFrequencies = null;
+    this.loaded = false;
+    await this.refresh();
+  }
+
+  private async load(): Promise<void> {
+    try {
+      if (!(await this.app.vault.adapter.exists(this.indexPath))) return;
+      const data = JSON.parse(await this.app.vault.adapter.read(this.indexPath)) as PersistedIndex;
+      if (data.version === INDEX_VERSION) {
+        this.files = data.files;
+      }
+    } catch (error) {
+      console.error('Failed to load vault index:', error);
+    }
+  }
+
+  private async save(): Promise<void> {
+    try {
+      const data: PersistedIndex = { version: INDEX_VERSION, files: this.files };
+      await this.app.vault.adapter.write(this.indexPath, JSON.stringify(data));
+    } catch (error) {
+      console.error('Failed to save vault index:', error);
+    }
+  }
+
+  private async refresh(): Promise<void> {
+    const markdownFiles = this.app.vault.getMarkdownFiles();
+    const existing = new Set(markdownFiles.map((f) => f.path));
+
+    for (const path of Object.keys(this.files)) {
+      if (!existing.has(path)) delete this.files[path];
+    }
+    for (const file of markdownFiles) {
+      if (this.files[file.path]?.mtime !== file.stat.mtime) {
+        await this.indexFile(file, false);
+      }
+    }
+
+    this.documentFrequencies = null;
+    this.loaded = true;
+    this.requestSave();
+  }
+
+  private async indexFile(file: TFile, persist = true): Promise<void> {
+    try {
+      const content = await this.app.vault.cachedRead(file);
+      this.files[file.path] = { mtime: file.stat.mtime, chunks: chunkNote(file.basename, content) };
+    } catch (error) {
+      console.error(`Failed to index ${file.path}:`, error);
+      return;
+    }
+    if (persist) {
+      this.documentFrequencies = null;
+      this.requestSave();
+    }
+  }
+
+  // ── Vault Events ─────────────────────────────────────────────────────────────
+
+  /**
+   * Queues a created or modified note for re-indexing. Bursts of edits are
+   * batched so typing doesn't re-index on every keystroke.
+   */
+  queueFile(file: TFile): void {
+    if (!this.loaded || file.extension !== 'md') return;
+    this.pendingFiles.add(file.path);
+    this.requestFlush();
+  }
+
+  removeFile(path: string): void {
+    if (!this.loaded || !this.files[path]) return;
+    delete this.files[path];
+    this.pendingFiles.delete(path);
+    this.documentFrequencies = null;
+    this.requestSave();
+  }
+
+  renameFile(file: TFile, oldPath: string): void {
+    this.removeFile(oldPath);
+    this.queueFile(file);
+  }
+
+  private async flushPendingFiles(): Promise<void> {
+    const paths = [...this.pendingFiles];
+    this.pendingFiles.clear();
+    for (const path of paths) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) {
+        await this.indexFile(file);
+      }
+    }
+  }
+
+  // ── Search ───────────────────────────────────────────────────────────────────
+
+  private getDocumentFrequencies(): Map<string, number> {
+    if (!this.documentFrequencies) {
+      const frequencies = new Map<string, number>();
+      for (const file of Object.values(this.files)) {
+        for (const chunk of file.chunks) {
+          for (const term of Object.keys(chunk.terms)) {
+            frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+          }
+        }
+      }
+      this.documentFrequencies = frequencies;
+    }
+    return this.documentFrequencies;
+  }
+
+  /**
+   * Returns the `limit` best-matching chunks for the query, optionally
+   * skipping some notes (e.g. one already included as context).
+   */
+  async search(query: string, limit: number, excludePaths: string[] = []): Promise<VaultChunk[]> {
+    if (!this.loaded) return [];
+
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0) return [];
+
+    const frequencies = this.getDocumentFrequencies();
+    const excluded = new Set(excludePaths);
+    let chunkCount = 0;
+    let totalLength = 0;
+    for (const file of Object.values(this.files)) {
+      for (const chunk of file.chunks) {
+        chunkCount += 1;
+        totalLength += chunk.length;
+      }
+    }
+    if (chunkCount === 0) return [];
+    const averageLength = totalLength / chunkCount;
+
+    const scored: { path: string; chunk: IndexedChunk; score: number }[] = [];
+    for (const [path, file] of Object.entries(this.files)) {
+      if (excluded.has(path)) continue;
+      for (const chunk of file.chunks) {
+        let score = 0;
+        for (const term of queryTerms) {
+          const tf = getTermCount(chunk, term);
+          if (!tf) continue;
+          const df = frequencies.get(term) ?? 0;
+          const idf = Math.log(1 + (chunkCount - df + 0.5) / (df + 0.5));
+          score += idf * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + (BM25_B * chunk.length) / averageLength)));
+        }
+        if (score > 0) scored.push({ path, chunk, score });
+      }
+    }
+
+    scored.sort((a, b) => b.score - a.score);
+
+    const results: VaultChunk[] = [];
+    for (const { path, chunk, score } of scored.slice(0, limit)) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) continue;
+      const content = await this.app.vault.cachedRead(file);
+      results.push({ path, heading: chunk.heading, text: content.slice(chunk.from, chunk.to).trim(), score });
+    }
+    return results;
+  }
+}